@@ -12,12 +12,21 @@ export default defineBackground(() => {
   const messageController = MessageController.getInstance();
   const systemService = SystemService.getInstance();
 
-  // 启动系统初始化
-  initializeSystem();
+  // 事件监听器必须在顶层同步注册，Service Worker 被事件唤醒后才能立即收到该事件
+  systemService.setupNetworkListeners();
 
   // 设置存储监听器
   systemService.setupStorageListener();
 
+  // 标签页关闭时清理只对该标签页生效的规则，切换页面时更新自动启用的规则组
+  systemService.setupTabListener();
+
+  // 规则组定时停用、长时间未操作后关闭全局开关
+  systemService.setupAlarmListener();
+
+  // 启动系统初始化
+  initializeSystem();
+
   // 监听来自popup的消息
   if (typeof browser !== 'undefined' && browser.runtime) {
     browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
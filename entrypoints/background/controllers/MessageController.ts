@@ -1,15 +1,26 @@
+import { ProfileService } from '../services/ProfileService';
 import { RuleService } from '../services/RuleService';
 import { SystemService } from '../services/SystemService';
 import {
+  ActivateProfileRequest,
   ApiRequest,
   ApiRequestType,
   ApiResponse,
   CreateGroupRequest,
+  CreateProfileRequest,
   DeleteGroupRequest,
+  DeleteProfileRequest,
+  EnableGroupUntilRequest,
+  GetMatchedRulesRequest,
+  LoadTabGroupsRequest,
   MessageHandler,
+  ReorderGroupsRequest,
   SaveGlobalEnabledRequest,
+  SaveSettingsRequest,
   ToggleGroupRequest,
+  ToggleTabGroupRequest,
   UpdateGroupRequest,
+  UpdateProfileRequest,
 } from '../types/api';
 
 /**
@@ -19,10 +30,12 @@ import {
 export class MessageController implements MessageHandler {
   private static instance: MessageController;
   private ruleService: RuleService;
+  private profileService: ProfileService;
   private systemService: SystemService;
 
   private constructor() {
     this.ruleService = RuleService.getInstance();
+    this.profileService = ProfileService.getInstance();
     this.systemService = SystemService.getInstance();
   }
 
@@ -68,6 +81,47 @@ export class MessageController implements MessageHandler {
           result = await this.handleToggleGroup(request.data);
           break;
 
+        case ApiRequestType.ENABLE_GROUP_UNTIL:
+          result = await this.handleEnableGroupUntil(request.data);
+          break;
+
+        case ApiRequestType.REORDER_GROUPS:
+          result = await this.handleReorderGroups(request.data);
+          break;
+
+        case ApiRequestType.LOAD_TAB_GROUPS:
+          result = await this.handleLoadTabGroups(request.data);
+          break;
+
+        case ApiRequestType.TOGGLE_TAB_GROUP:
+          result = await this.handleToggleTabGroup(request.data);
+          break;
+
+        case ApiRequestType.LOAD_AUTO_GROUPS:
+          result = await this.handleLoadAutoGroups();
+          break;
+
+        // 方案管理
+        case ApiRequestType.LOAD_PROFILES:
+          result = await this.handleLoadProfiles();
+          break;
+
+        case ApiRequestType.CREATE_PROFILE:
+          result = await this.handleCreateProfile(request.data);
+          break;
+
+        case ApiRequestType.UPDATE_PROFILE:
+          result = await this.handleUpdateProfile(request.data);
+          break;
+
+        case ApiRequestType.DELETE_PROFILE:
+          result = await this.handleDeleteProfile(request.data);
+          break;
+
+        case ApiRequestType.ACTIVATE_PROFILE:
+          result = await this.handleActivateProfile(request.data);
+          break;
+
         // 全局设置
         case ApiRequestType.LOAD_GLOBAL_ENABLED:
           result = await this.handleLoadGlobalEnabled();
@@ -77,7 +131,23 @@ export class MessageController implements MessageHandler {
           result = await this.handleSaveGlobalEnabled(request.data);
           break;
 
+        case ApiRequestType.LOAD_SETTINGS:
+          result = await this.handleLoadSettings();
+          break;
+
+        case ApiRequestType.SAVE_SETTINGS:
+          result = await this.handleSaveSettings(request.data);
+          break;
+
         // 系统操作
+        case ApiRequestType.GET_RULE_STATUS:
+          result = await this.handleGetRuleStatus();
+          break;
+
+        case ApiRequestType.GET_MATCHED_RULES:
+          result = await this.handleGetMatchedRules(request.data);
+          break;
+
         case ApiRequestType.UPDATE_BADGE:
           result = await this.handleUpdateBadge();
           break;
@@ -136,6 +206,7 @@ export class MessageController implements MessageHandler {
       throw new Error('规则组数据和ID不能为空');
     }
     await this.ruleService.saveGroup(data);
+    await this.systemService.scheduleRulesUpdate();
     return { success: true };
   }
 
@@ -146,7 +217,12 @@ export class MessageController implements MessageHandler {
     if (!data.groupName) {
       throw new Error('规则组名称不能为空');
     }
-    return await this.ruleService.createGroup(data.groupName, data.ruleText);
+    const group = await this.ruleService.createGroup(
+      data.groupName,
+      data.ruleText
+    );
+    await this.systemService.scheduleRulesUpdate();
+    return group;
   }
 
   /**
@@ -160,6 +236,7 @@ export class MessageController implements MessageHandler {
       throw new Error('更新数据不能为空');
     }
     await this.ruleService.updateGroup(data.groupId, data.updates);
+    await this.systemService.scheduleRulesUpdate();
     return { success: true };
   }
 
@@ -171,6 +248,7 @@ export class MessageController implements MessageHandler {
       throw new Error('规则组ID不能为空');
     }
     await this.ruleService.deleteGroup(data.groupId);
+    await this.systemService.scheduleRulesUpdate();
     return { success: true };
   }
 
@@ -182,9 +260,141 @@ export class MessageController implements MessageHandler {
       throw new Error('规则组ID不能为空');
     }
     const enabled = await this.ruleService.toggleGroup(data.groupId);
+    await this.systemService.scheduleRulesUpdate();
     return { enabled };
   }
 
+  /**
+   * 处理启用规则组并定时停用请求
+   */
+  private async handleEnableGroupUntil(data: EnableGroupUntilRequest) {
+    if (!data || !data.groupId) {
+      throw new Error('规则组ID不能为空');
+    }
+    if (typeof data.expiresAt !== 'string') {
+      throw new Error('自动停用时间不能为空');
+    }
+    await this.ruleService.enableGroupUntil(data.groupId, data.expiresAt);
+    await this.systemService.scheduleRulesUpdate();
+    return { success: true };
+  }
+
+  /**
+   * 处理调整规则组顺序请求
+   */
+  private async handleReorderGroups(data: ReorderGroupsRequest) {
+    if (!data || !Array.isArray(data.groupIds)) {
+      throw new Error('规则组ID列表不能为空');
+    }
+    await this.ruleService.reorderGroups(data.groupIds);
+    await this.systemService.scheduleRulesUpdate();
+    return { success: true };
+  }
+
+  /**
+   * 处理查询标签页单独启用的规则组请求
+   */
+  private async handleLoadTabGroups(data: LoadTabGroupsRequest) {
+    if (!data || !Number.isInteger(data.tabId)) {
+      throw new Error('标签页ID必须是整数');
+    }
+    return await this.ruleService.getTabGroupIds(data.tabId);
+  }
+
+  /**
+   * 处理设置规则组仅在指定标签页生效请求，会话存储变化不会触发存储监听，需要主动更新规则
+   */
+  private async handleToggleTabGroup(data: ToggleTabGroupRequest) {
+    if (!data || !data.groupId) {
+      throw new Error('规则组ID不能为空');
+    }
+    if (!Number.isInteger(data.tabId)) {
+      throw new Error('标签页ID必须是整数');
+    }
+    if (typeof data.enabled !== 'boolean') {
+      throw new Error('启用状态必须是布尔值');
+    }
+    const groupIds = await this.ruleService.setGroupEnabledForTab(
+      data.groupId,
+      data.tabId,
+      data.enabled
+    );
+    await this.systemService.scheduleRulesUpdate();
+    return groupIds;
+  }
+
+  /**
+   * 处理查询自动启用的规则组请求
+   */
+  private async handleLoadAutoGroups() {
+    return await this.systemService.loadAutoGroupIds();
+  }
+
+  /**
+   * 处理加载方案列表请求
+   */
+  private async handleLoadProfiles() {
+    return await this.profileService.loadProfiles();
+  }
+
+  /**
+   * 处理创建方案请求
+   */
+  private async handleCreateProfile(data: CreateProfileRequest) {
+    if (!data || !data.name) {
+      throw new Error('方案名称不能为空');
+    }
+    const profile = await this.profileService.createProfile(
+      data.name,
+      data.groupIds
+    );
+    // 新方案可能与当前启用的规则组一致，徽章需要刷新
+    await this.systemService.scheduleRulesUpdate();
+    return profile;
+  }
+
+  /**
+   * 处理更新方案请求
+   */
+  private async handleUpdateProfile(data: UpdateProfileRequest) {
+    if (!data || !data.profileId) {
+      throw new Error('方案ID不能为空');
+    }
+    if (!data.updates) {
+      throw new Error('更新数据不能为空');
+    }
+    const profile = await this.profileService.updateProfile(
+      data.profileId,
+      data.updates
+    );
+    await this.systemService.scheduleRulesUpdate();
+    return profile;
+  }
+
+  /**
+   * 处理删除方案请求
+   */
+  private async handleDeleteProfile(data: DeleteProfileRequest) {
+    if (!data || !data.profileId) {
+      throw new Error('方案ID不能为空');
+    }
+    await this.profileService.deleteProfile(data.profileId);
+    await this.systemService.scheduleRulesUpdate();
+    return { success: true };
+  }
+
+  /**
+   * 处理激活方案请求，规则组启用状态一次性切换
+   */
+  private async handleActivateProfile(data: ActivateProfileRequest) {
+    if (!data || !data.profileId) {
+      throw new Error('方案ID不能为空');
+    }
+    const groups = await this.profileService.activateProfile(data.profileId);
+    await this.systemService.scheduleRulesUpdate();
+    return groups;
+  }
+
   /**
    * 处理加载全局启用状态请求
    */
@@ -200,9 +410,46 @@ export class MessageController implements MessageHandler {
       throw new Error('启用状态必须是布尔值');
     }
     await this.systemService.saveGlobalEnabled(data.enabled);
+    await this.systemService.scheduleRulesUpdate();
     return { success: true };
   }
 
+  /**
+   * 处理加载系统设置请求
+   */
+  private async handleLoadSettings() {
+    return await this.systemService.loadSettings();
+  }
+
+  /**
+   * 处理保存系统设置请求
+   */
+  private async handleSaveSettings(data: SaveSettingsRequest) {
+    if (!data || !data.settings || typeof data.settings !== 'object') {
+      throw new Error('设置数据不能为空');
+    }
+    const settings = await this.systemService.saveSettings(data.settings);
+    await this.systemService.scheduleRulesUpdate();
+    return settings;
+  }
+
+  /**
+   * 处理获取规则生效状态请求
+   */
+  private async handleGetRuleStatus() {
+    return this.systemService.getRuleStatus();
+  }
+
+  /**
+   * 处理查询命中规则请求
+   */
+  private async handleGetMatchedRules(data?: GetMatchedRulesRequest) {
+    if (data?.tabId !== undefined && !Number.isInteger(data.tabId)) {
+      throw new Error('标签页ID必须是整数');
+    }
+    return await this.systemService.getMatchedRules(data?.tabId);
+  }
+
   /**
    * 处理更新徽章请求
    */
@@ -216,6 +463,7 @@ export class MessageController implements MessageHandler {
    */
   private async handleClearAllData() {
     await this.ruleService.clearAllData();
+    await this.systemService.scheduleRulesUpdate();
     return { success: true };
   }
 
@@ -225,6 +473,7 @@ export class MessageController implements MessageHandler {
   private async handleInitializeDefaultData() {
     console.log('🔄 MessageController.handleInitializeDefaultData');
     await this.ruleService.initializeDefaultData();
+    await this.systemService.scheduleRulesUpdate();
     console.log('✅ MessageController.handleInitializeDefaultData completed');
     return { success: true };
   }
@@ -1,7 +1,28 @@
-import { GroupRuleVo } from '../../../types';
+import {
+  GroupRuleVo,
+  ProfileVo,
+  SystemSettings,
+  TabGroups,
+} from '../../../types';
+import { Migration, MIGRATIONS } from './migrations';
 
 const STORAGE_KEY = 'xswitch_groups';
 const GLOBAL_ENABLED_KEY = 'xswitch_global_enabled';
+const SETTINGS_KEY = 'xswitch_settings';
+const PROFILES_KEY = 'xswitch_profiles';
+const ACTIVE_PROFILE_KEY = 'xswitch_active_profile';
+const TAB_GROUPS_KEY = 'xswitch_tab_groups';
+const DISABLED_TABS_KEY = 'xswitch_disabled_tabs';
+const SCHEMA_VERSION_KEY = 'xswitch_schema_version';
+
+const DEFAULT_SETTINGS: SystemSettings = {
+  disableCache: false,
+  clearCacheOnUpdate: false,
+  vars: {},
+  baseUrl: '',
+  urlSwitchKey: '',
+  autoOffHours: 0,
+};
 
 /**
  * 存储API抽象层
@@ -11,6 +32,11 @@ interface StorageAPI {
   set(data: Record<string, any>): Promise<void>;
   remove(keys: string[]): Promise<void>;
   clear(): Promise<void>;
+  /** 浏览器会话级存储，浏览器关闭后清空 */
+  session?: {
+    get(key: string): Promise<Record<string, any>>;
+    set(data: Record<string, any>): Promise<void>;
+  };
   onChanged?: {
     addListener(
       callback: (
@@ -52,6 +78,10 @@ const getStorageAPI = (): StorageAPI | null => {
       set: data => browser.storage.local.set(data),
       remove: keys => browser.storage.local.remove(keys),
       clear: () => browser.storage.local.clear(),
+      session: browser.storage.session && {
+        get: key => browser.storage.session.get(key),
+        set: data => browser.storage.session.set(data),
+      },
       onChanged: browser.storage.onChanged,
     };
   }
@@ -233,11 +263,156 @@ export class StorageDao {
   }
 
   /**
-   * 清除所有存储数据
+   * 保存系统设置
+   */
+  async saveSettings(settings: SystemSettings): Promise<void> {
+    console.log('💾 StorageDao.saveSettings:', JSON.stringify(settings));
+    await this.storageAPI.set({ [SETTINGS_KEY]: settings });
+  }
+
+  /**
+   * 加载系统设置，缺失的字段使用默认值
+   */
+  async loadSettings(): Promise<SystemSettings> {
+    console.log('📖 StorageDao.loadSettings');
+    const result = await this.storageAPI.get([SETTINGS_KEY]);
+    return { ...DEFAULT_SETTINGS, ...(result[SETTINGS_KEY] || {}) };
+  }
+
+  /**
+   * 保存方案列表
+   */
+  async saveProfiles(profiles: ProfileVo[]): Promise<void> {
+    console.log('💾 StorageDao.saveProfiles:', profiles.length);
+    await this.storageAPI.set({ [PROFILES_KEY]: profiles });
+  }
+
+  /**
+   * 加载方案列表
+   */
+  async loadProfiles(): Promise<ProfileVo[]> {
+    console.log('📖 StorageDao.loadProfiles');
+    const result = await this.storageAPI.get([PROFILES_KEY]);
+    return result[PROFILES_KEY] || [];
+  }
+
+  /**
+   * 加载最近激活的方案ID
+   */
+  async loadActiveProfileId(): Promise<string | undefined> {
+    const result = await this.storageAPI.get([ACTIVE_PROFILE_KEY]);
+    return result[ACTIVE_PROFILE_KEY] || undefined;
+  }
+
+  /**
+   * 一次写入规则组与激活的方案，只触发一次存储变化，规则只更新一次
+   */
+  async saveGroupsWithActiveProfile(
+    groups: GroupRuleVo[],
+    profileId: string
+  ): Promise<void> {
+    console.log('💾 StorageDao.saveGroupsWithActiveProfile:', profileId);
+    await this.storageAPI.set({
+      [STORAGE_KEY]: groups,
+      [ACTIVE_PROFILE_KEY]: profileId,
+    });
+  }
+
+  /**
+   * 保存仅在指定标签页生效的规则组
+   */
+  async saveTabGroups(tabGroups: TabGroups): Promise<void> {
+    console.log('💾 StorageDao.saveTabGroups:', JSON.stringify(tabGroups));
+    if (!this.storageAPI.session) {
+      throw new Error('当前环境不支持会话存储');
+    }
+    await this.storageAPI.session.set({ [TAB_GROUPS_KEY]: tabGroups });
+  }
+
+  /**
+   * 加载仅在指定标签页生效的规则组，不支持会话存储时为空
+   */
+  async loadTabGroups(): Promise<TabGroups> {
+    console.log('📖 StorageDao.loadTabGroups');
+    const result = await this.storageAPI.session?.get(TAB_GROUPS_KEY);
+    return result?.[TAB_GROUPS_KEY] || {};
+  }
+
+  /**
+   * 保存停用代理的标签页
+   */
+  async saveDisabledTabIds(tabIds: number[]): Promise<void> {
+    console.log('💾 StorageDao.saveDisabledTabIds:', JSON.stringify(tabIds));
+    if (!this.storageAPI.session) {
+      throw new Error('当前环境不支持会话存储');
+    }
+    await this.storageAPI.session.set({ [DISABLED_TABS_KEY]: tabIds });
+  }
+
+  /**
+   * 加载停用代理的标签页，不支持会话存储时为空
+   */
+  async loadDisabledTabIds(): Promise<number[]> {
+    console.log('📖 StorageDao.loadDisabledTabIds');
+    const result = await this.storageAPI.session?.get(DISABLED_TABS_KEY);
+    return result?.[DISABLED_TABS_KEY] || [];
+  }
+
+  /**
+   * 加载存储结构版本，未记录版本的数据视为版本 0
+   */
+  async loadSchemaVersion(): Promise<number> {
+    const result = await this.storageAPI.get([SCHEMA_VERSION_KEY]);
+    return result[SCHEMA_VERSION_KEY] ?? 0;
+  }
+
+  /**
+   * 按版本号顺序执行尚未执行的迁移，每步成功后立即记录版本号，
+   * 失败时停在失败的迁移之前，下次启动时从该迁移重试。返回迁移后的版本
+   */
+  async runMigrations(migrations: Migration[] = MIGRATIONS): Promise<number> {
+    let version = await this.loadSchemaVersion();
+    const pending = migrations
+      .filter(migration => migration.version > version)
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      console.log(
+        '🔄 StorageDao.runMigrations:',
+        migration.version,
+        migration.description
+      );
+      try {
+        await migration.migrate(this.storageAPI);
+      } catch (error) {
+        console.error(
+          '❌ StorageDao.runMigrations failed:',
+          'Version:',
+          migration.version,
+          'Error:',
+          error instanceof Error ? error.message : String(error),
+          'Code: STORAGE_MIGRATION_ERROR'
+        );
+        throw error;
+      }
+      await this.storageAPI.set({ [SCHEMA_VERSION_KEY]: migration.version });
+      version = migration.version;
+    }
+    return version;
+  }
+
+  /**
+   * 清除所有存储数据，保留存储结构版本，避免重新导入旧版数据
    */
   async clearAll(): Promise<void> {
     console.log('🗑️ StorageDao.clearAll');
-    await this.storageAPI.remove([STORAGE_KEY, GLOBAL_ENABLED_KEY]);
+    await this.storageAPI.remove([
+      STORAGE_KEY,
+      GLOBAL_ENABLED_KEY,
+      SETTINGS_KEY,
+      PROFILES_KEY,
+      ACTIVE_PROFILE_KEY,
+    ]);
   }
 
   /**
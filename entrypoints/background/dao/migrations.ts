@@ -0,0 +1,163 @@
+/**
+ * 存储结构迁移
+ *
+ * 每个迁移把存储从上一个版本升级到 version，按版本号顺序执行，执行成功后记录版本号。
+ * 迁移按编写时的存储结构读写原始数据，不依赖 StorageDao 与类型定义，
+ * 之后修改字段或存储键时只需追加新的迁移，不要修改已发布的迁移。
+ */
+
+/**
+ * 迁移可用的存储读写接口
+ */
+export interface MigrationStorage {
+  get(keys: string[]): Promise<Record<string, any>>;
+  set(data: Record<string, any>): Promise<void>;
+}
+
+/**
+ * 单个迁移步骤
+ */
+export interface Migration {
+  /** 执行后的存储版本 */
+  version: number;
+  /** 迁移说明，用于日志 */
+  description: string;
+  migrate(storage: MigrationStorage): Promise<void>;
+}
+
+const GROUPS_KEY = 'xswitch_groups';
+
+/** xswitch v2 的规则页签列表：[{ id, name }] */
+const LEGACY_TAB_LIST_KEY = 'tabList';
+/** xswitch v2 启用的规则页签ID */
+const LEGACY_ACTIVE_KEYS_KEY = 'activeKeys';
+/** xswitch v2 默认规则页签的配置，其余页签保存在 config_<id> 中 */
+const LEGACY_CONFIG_KEY = 'config';
+const LEGACY_DEFAULT_TAB_ID = '0';
+
+interface LegacyTab {
+  id: string | number;
+  name?: string;
+  active?: boolean;
+}
+
+/**
+ * 读取 xswitch v2 的规则页签，没有页签列表时只有默认规则；跳过没有配置的页签
+ */
+const loadLegacyTabs = async (
+  storage: MigrationStorage
+): Promise<
+  Array<{ id: string; name: string; config: unknown; enabled: boolean }>
+> => {
+  const result = await storage.get([
+    LEGACY_TAB_LIST_KEY,
+    LEGACY_ACTIVE_KEYS_KEY,
+  ]);
+  const tabList: LegacyTab[] = Array.isArray(result[LEGACY_TAB_LIST_KEY])
+    ? result[LEGACY_TAB_LIST_KEY]
+    : [{ id: LEGACY_DEFAULT_TAB_ID, name: '默认规则', active: true }];
+  const activeKeys: unknown = result[LEGACY_ACTIVE_KEYS_KEY];
+
+  const configKeys = tabList.map(tab =>
+    String(tab.id) === LEGACY_DEFAULT_TAB_ID
+      ? LEGACY_CONFIG_KEY
+      : `${LEGACY_CONFIG_KEY}_${tab.id}`
+  );
+  const configs = await storage.get(configKeys);
+
+  return tabList
+    .map((tab, index) => ({
+      id: String(tab.id),
+      name: tab.name || `规则 ${index + 1}`,
+      config: configs[configKeys[index]],
+      enabled: Array.isArray(activeKeys)
+        ? activeKeys.map(String).includes(String(tab.id))
+        : tab.active !== false,
+    }))
+    .filter(tab => tab.config !== undefined && tab.config !== null);
+};
+
+/**
+ * 版本 1：导入 xswitch v2 的规则，每个规则页签成为一个规则组。
+ * v2 的配置（proxy 二元组与 cors 列表）与规则组内容格式兼容，原样保留注释；
+ * 已有规则组时导入的规则组一律停用，避免改变当前生效的规则，
+ * 与现有规则组重名时加后缀，旧数据不删除
+ */
+const importLegacyData: Migration = {
+  version: 1,
+  description: '导入 xswitch v2 的规则',
+  async migrate(storage) {
+    const legacyTabs = await loadLegacyTabs(storage);
+    if (legacyTabs.length === 0) {
+      return;
+    }
+
+    const result = await storage.get([GROUPS_KEY]);
+    const groups: any[] = Array.isArray(result[GROUPS_KEY])
+      ? result[GROUPS_KEY]
+      : [];
+    const names = new Set(groups.map(group => group?.groupName));
+    const now = new Date().toISOString();
+
+    const imported = legacyTabs.map(tab => {
+      const groupName = names.has(tab.name) ? `${tab.name}（v2）` : tab.name;
+      names.add(groupName);
+      return {
+        id: `legacy-${tab.id}`,
+        groupName,
+        enabled: groups.length === 0 && tab.enabled,
+        ruleText:
+          typeof tab.config === 'string'
+            ? tab.config
+            : JSON.stringify(tab.config, null, 2),
+        createTime: now,
+        updateTime: now,
+      };
+    });
+
+    console.log('📦 Importing xswitch v2 rules:', imported.length);
+    await storage.set({ [GROUPS_KEY]: [...groups, ...imported] });
+  },
+};
+
+/**
+ * 版本 2：补全早期版本规则组缺少的字段，使旧数据能通过保存时的校验
+ */
+const normalizeGroups: Migration = {
+  version: 2,
+  description: '补全规则组缺少的字段',
+  async migrate(storage) {
+    const result = await storage.get([GROUPS_KEY]);
+    const groups: unknown = result[GROUPS_KEY];
+    if (!Array.isArray(groups)) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const normalized = groups
+      .filter(group => group && typeof group === 'object')
+      .map((group, index) => ({
+        ...group,
+        id: group.id ? String(group.id) : `${Date.now()}-${index}`,
+        groupName: group.groupName || `规则组 ${index + 1}`,
+        enabled: group.enabled === true,
+        ruleText:
+          typeof group.ruleText === 'string'
+            ? group.ruleText
+            : JSON.stringify(
+                group.ruleText ?? { proxy: [], cors: [] },
+                null,
+                2
+              ),
+        createTime: group.createTime || now,
+        updateTime: group.updateTime || group.createTime || now,
+      }));
+
+    await storage.set({ [GROUPS_KEY]: normalized });
+  },
+};
+
+/**
+ * 全部迁移，按版本号递增排列
+ */
+export const MIGRATIONS: Migration[] = [importLegacyData, normalizeGroups];
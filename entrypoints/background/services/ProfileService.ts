@@ -0,0 +1,257 @@
+import { GroupRuleVo, ProfileState, ProfileVo } from '../../../types';
+import { StorageDao } from '../dao/StorageDao';
+import { RuleService } from './RuleService';
+
+/**
+ * 方案服务 - 负责方案的增删改与激活
+ */
+export class ProfileService {
+  private static instance: ProfileService;
+  private storageDao: StorageDao;
+  private ruleService: RuleService;
+
+  private constructor() {
+    this.storageDao = StorageDao.getInstance();
+    this.ruleService = RuleService.getInstance();
+  }
+
+  static getInstance(): ProfileService {
+    if (!ProfileService.instance) {
+      ProfileService.instance = new ProfileService();
+    }
+    return ProfileService.instance;
+  }
+
+  /**
+   * 加载方案列表及当前激活的方案
+   */
+  async loadProfiles(): Promise<ProfileState> {
+    try {
+      const [profiles, activeProfileId, groups] = await Promise.all([
+        this.storageDao.loadProfiles(),
+        this.storageDao.loadActiveProfileId(),
+        this.ruleService.loadGroups(),
+      ]);
+      const active = profiles.find(profile => profile.id === activeProfileId);
+
+      return {
+        profiles,
+        ...(active &&
+          this.isProfileApplied(active, groups) && {
+            activeProfileId: active.id,
+          }),
+      };
+    } catch (error) {
+      console.error(
+        '❌ ProfileService.loadProfiles failed:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: PROFILE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 获取当前激活的方案
+   */
+  async getActiveProfile(): Promise<ProfileVo | undefined> {
+    const { profiles, activeProfileId } = await this.loadProfiles();
+    return profiles.find(profile => profile.id === activeProfileId);
+  }
+
+  /**
+   * 创建方案，未指定规则组时使用当前启用的规则组
+   */
+  async createProfile(name: string, groupIds?: string[]): Promise<ProfileVo> {
+    try {
+      const trimmedName = name.trim();
+      if (!trimmedName) {
+        throw new Error('方案名称不能为空');
+      }
+
+      const [profiles, groups] = await Promise.all([
+        this.storageDao.loadProfiles(),
+        this.ruleService.loadGroups(),
+      ]);
+      if (profiles.some(profile => profile.name === trimmedName)) {
+        throw new Error('方案名称已存在');
+      }
+
+      const now = new Date().toISOString();
+      const profile: ProfileVo = {
+        id: Date.now().toString(),
+        name: trimmedName,
+        groupIds:
+          groupIds === undefined
+            ? groups.filter(group => group.enabled).map(group => group.id)
+            : this.validateGroupIds(groupIds, groups),
+        createTime: now,
+        updateTime: now,
+      };
+
+      await this.storageDao.saveProfiles([...profiles, profile]);
+      return profile;
+    } catch (error) {
+      console.error(
+        '❌ ProfileService.createProfile failed:',
+        'Name:',
+        name,
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: PROFILE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 更新方案名称或包含的规则组
+   */
+  async updateProfile(
+    profileId: string,
+    updates: Partial<Pick<ProfileVo, 'name' | 'groupIds'>>
+  ): Promise<ProfileVo> {
+    try {
+      const [profiles, groups] = await Promise.all([
+        this.storageDao.loadProfiles(),
+        this.ruleService.loadGroups(),
+      ]);
+      const index = profiles.findIndex(profile => profile.id === profileId);
+      if (index === -1) {
+        throw new Error('方案不存在');
+      }
+
+      const name = updates.name?.trim();
+      if (updates.name !== undefined && !name) {
+        throw new Error('方案名称不能为空');
+      }
+      if (
+        name &&
+        profiles.some(
+          profile => profile.id !== profileId && profile.name === name
+        )
+      ) {
+        throw new Error('方案名称已存在');
+      }
+
+      const updatedProfile: ProfileVo = {
+        ...profiles[index],
+        ...(name && { name }),
+        ...(updates.groupIds && {
+          groupIds: this.validateGroupIds(updates.groupIds, groups),
+        }),
+        updateTime: new Date().toISOString(),
+      };
+      profiles[index] = updatedProfile;
+
+      await this.storageDao.saveProfiles(profiles);
+      return updatedProfile;
+    } catch (error) {
+      console.error(
+        '❌ ProfileService.updateProfile failed:',
+        'Profile ID:',
+        profileId,
+        'Updates:',
+        Object.keys(updates),
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: PROFILE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 删除方案，不影响规则组的启用状态
+   */
+  async deleteProfile(profileId: string): Promise<void> {
+    try {
+      const profiles = await this.storageDao.loadProfiles();
+      const filteredProfiles = profiles.filter(
+        profile => profile.id !== profileId
+      );
+      if (filteredProfiles.length === profiles.length) {
+        throw new Error('方案不存在');
+      }
+
+      await this.storageDao.saveProfiles(filteredProfiles);
+    } catch (error) {
+      console.error(
+        '❌ ProfileService.deleteProfile failed:',
+        'Profile ID:',
+        profileId,
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: PROFILE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 激活方案：启用方案中的规则组、停用其余规则组，一次写入存储
+   */
+  async activateProfile(profileId: string): Promise<GroupRuleVo[]> {
+    try {
+      const [profiles, groups] = await Promise.all([
+        this.storageDao.loadProfiles(),
+        this.ruleService.loadGroups(),
+      ]);
+      const profile = profiles.find(profile => profile.id === profileId);
+      if (!profile) {
+        throw new Error('方案不存在');
+      }
+
+      const enabledIds = new Set(profile.groupIds);
+      const now = new Date().toISOString();
+      const updatedGroups = groups.map(group => {
+        const enabled = enabledIds.has(group.id);
+        return group.enabled === enabled
+          ? group
+          : { ...group, enabled, expiresAt: undefined, updateTime: now };
+      });
+
+      await this.storageDao.saveGroupsWithActiveProfile(
+        updatedGroups,
+        profileId
+      );
+      return updatedGroups;
+    } catch (error) {
+      console.error(
+        '❌ ProfileService.activateProfile failed:',
+        'Profile ID:',
+        profileId,
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: PROFILE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 方案中的规则组（忽略已删除的）是否恰好是当前启用的规则组
+   */
+  private isProfileApplied(profile: ProfileVo, groups: GroupRuleVo[]): boolean {
+    const enabledIds = new Set(profile.groupIds);
+    return groups.every(group => group.enabled === enabledIds.has(group.id));
+  }
+
+  /**
+   * 校验规则组ID均存在，并去重
+   */
+  private validateGroupIds(
+    groupIds: string[],
+    groups: GroupRuleVo[]
+  ): string[] {
+    if (!Array.isArray(groupIds)) {
+      throw new Error('方案的规则组ID必须是数组');
+    }
+    const existingIds = new Set(groups.map(group => group.id));
+    if (groupIds.some(id => !existingIds.has(id))) {
+      throw new Error('方案包含不存在的规则组');
+    }
+    return [...new Set(groupIds)];
+  }
+}
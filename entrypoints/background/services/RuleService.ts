@@ -1,4 +1,5 @@
-import { GroupRuleVo } from '../../../types';
+import { GroupRuleVo, TabGroups } from '../../../types';
+import { compileRule } from '../../utils/compiler';
 import { DEFAULT_NEW_RULE, DEFAULT_RULE } from '../../utils/const';
 import { StorageDao } from '../dao/StorageDao';
 import { networkService } from '../../utils/network';
@@ -218,7 +219,11 @@ export class RuleService {
       }
 
       const newEnabled = !group.enabled;
-      await this.updateGroup(groupId, { enabled: newEnabled });
+      // 手动切换后不再定时停用
+      await this.updateGroup(groupId, {
+        enabled: newEnabled,
+        expiresAt: undefined,
+      });
 
       return newEnabled;
     } catch (error) {
@@ -234,6 +239,327 @@ export class RuleService {
     }
   }
 
+  /**
+   * 启用规则组，到指定时间自动停用
+   */
+  async enableGroupUntil(groupId: string, expiresAt: string): Promise<void> {
+    try {
+      const expiresTime = Date.parse(expiresAt);
+      if (Number.isNaN(expiresTime) || expiresTime <= Date.now()) {
+        throw new Error('自动停用时间必须晚于当前时间');
+      }
+      await this.updateGroup(groupId, {
+        enabled: true,
+        expiresAt: new Date(expiresTime).toISOString(),
+      });
+    } catch (error) {
+      console.error(
+        '❌ RuleService.enableGroupUntil failed:',
+        'Group ID:',
+        groupId,
+        'Expires at:',
+        expiresAt,
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: RULE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 停用已到自动停用时间的规则组，返回被停用的规则组
+   */
+  async expireGroups(now: number = Date.now()): Promise<GroupRuleVo[]> {
+    try {
+      const groups = await this.loadGroups();
+      const expired = groups.filter(
+        group =>
+          group.enabled && group.expiresAt && Date.parse(group.expiresAt) <= now
+      );
+      if (expired.length === 0) {
+        return [];
+      }
+
+      const updateTime = new Date().toISOString();
+      await this.saveGroups(
+        groups.map(group =>
+          expired.includes(group)
+            ? { ...group, enabled: false, expiresAt: undefined, updateTime }
+            : group
+        )
+      );
+      return expired;
+    } catch (error) {
+      console.error(
+        '❌ RuleService.expireGroups failed:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: RULE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 获取因前台页面地址匹配 activateOn 而自动启用的规则组ID，已手动启用的规则组不计入
+   */
+  async getAutoGroupIds(url: string | undefined): Promise<string[]> {
+    if (!url) {
+      return [];
+    }
+    const groups = await this.loadGroups();
+    return groups
+      .filter(
+        group =>
+          !group.enabled &&
+          group.activateOn?.some(pattern =>
+            this.isActivateOnMatched(url, pattern)
+          )
+      )
+      .map(group => group.id);
+  }
+
+  /**
+   * 加载仅在指定标签页生效的规则组
+   */
+  async loadTabGroups(): Promise<TabGroups> {
+    try {
+      return await this.storageDao.loadTabGroups();
+    } catch (error) {
+      console.error(
+        '❌ RuleService.loadTabGroups failed:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: RULE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 获取在指定标签页单独启用的规则组ID
+   */
+  async getTabGroupIds(tabId: number): Promise<string[]> {
+    const tabGroups = await this.loadTabGroups();
+    return Object.keys(tabGroups).filter(groupId =>
+      tabGroups[groupId].includes(tabId)
+    );
+  }
+
+  /**
+   * 设置规则组是否仅在指定标签页生效，返回该标签页单独启用的规则组ID。
+   * 同时清理已删除的规则组
+   */
+  async setGroupEnabledForTab(
+    groupId: string,
+    tabId: number,
+    enabled: boolean
+  ): Promise<string[]> {
+    try {
+      const [groups, tabGroups] = await Promise.all([
+        this.loadGroups(),
+        this.loadTabGroups(),
+      ]);
+      if (!groups.some(group => group.id === groupId)) {
+        throw new Error('规则组不存在');
+      }
+
+      const nextTabGroups: TabGroups = {};
+      groups.forEach(group => {
+        const tabIds = (tabGroups[group.id] || []).filter(id => id !== tabId);
+        if (
+          group.id === groupId ? enabled : tabGroups[group.id]?.includes(tabId)
+        ) {
+          tabIds.push(tabId);
+        }
+        if (tabIds.length > 0) {
+          nextTabGroups[group.id] = tabIds;
+        }
+      });
+
+      await this.storageDao.saveTabGroups(nextTabGroups);
+      // 在标签页启用规则组时恢复该标签页的代理
+      if (enabled) {
+        await this.setTabDisabled(tabId, false);
+      }
+      return Object.keys(nextTabGroups).filter(id =>
+        nextTabGroups[id].includes(tabId)
+      );
+    } catch (error) {
+      console.error(
+        '❌ RuleService.setGroupEnabledForTab failed:',
+        'Group ID:',
+        groupId,
+        'Tab ID:',
+        tabId,
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: RULE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 加载停用代理的标签页
+   */
+  async loadDisabledTabIds(): Promise<number[]> {
+    try {
+      return await this.storageDao.loadDisabledTabIds();
+    } catch (error) {
+      console.error(
+        '❌ RuleService.loadDisabledTabIds failed:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: RULE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 停用或恢复指定标签页的代理，返回是否有变化
+   */
+  async setTabDisabled(tabId: number, disabled: boolean): Promise<boolean> {
+    const tabIds = await this.loadDisabledTabIds();
+    if (tabIds.includes(tabId) === disabled) {
+      return false;
+    }
+    await this.storageDao.saveDisabledTabIds(
+      disabled ? [...tabIds, tabId] : tabIds.filter(id => id !== tabId)
+    );
+    return true;
+  }
+
+  /**
+   * 按链接开关参数切换标签页的规则：off 停用该标签页的代理，on 恢复；
+   * 其他值为逗号分隔的规则组名称或ID，在该标签页单独启用。返回是否有变化
+   */
+  async applyUrlSwitch(tabId: number, value: string): Promise<boolean> {
+    try {
+      const command = value.trim();
+      if (command.toLowerCase() === 'off') {
+        const removed = await this.removeTab(tabId);
+        return (await this.setTabDisabled(tabId, true)) || removed;
+      }
+      if (command.toLowerCase() === 'on') {
+        return await this.setTabDisabled(tabId, false);
+      }
+
+      const [enabledIds, disabledTabIds] = await Promise.all([
+        this.getTabGroupIds(tabId),
+        this.loadDisabledTabIds(),
+      ]);
+      let changed = false;
+      for (const key of command.split(',')) {
+        if (!key.trim()) {
+          continue;
+        }
+        const group = await this.findGroup(key.trim());
+        if (!group) {
+          console.warn('⚠️ URL switch group not found:', key.trim());
+          continue;
+        }
+        if (!enabledIds.includes(group.id) || disabledTabIds.includes(tabId)) {
+          await this.setGroupEnabledForTab(group.id, tabId, true);
+          changed = true;
+        }
+      }
+      return changed;
+    } catch (error) {
+      console.error(
+        '❌ RuleService.applyUrlSwitch failed:',
+        'Tab ID:',
+        tabId,
+        'Value:',
+        value,
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: RULE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 标签页关闭后移除其单独启用的规则组与停用状态，返回是否有变化
+   */
+  async removeTab(tabId: number): Promise<boolean> {
+    try {
+      const enabled = await this.setTabDisabled(tabId, false);
+      const tabGroups = await this.loadTabGroups();
+      const nextTabGroups: TabGroups = {};
+      Object.entries(tabGroups).forEach(([groupId, tabIds]) => {
+        const remaining = tabIds.filter(id => id !== tabId);
+        if (remaining.length > 0) {
+          nextTabGroups[groupId] = remaining;
+        }
+      });
+
+      if (
+        Object.values(nextTabGroups).flat().length ===
+        Object.values(tabGroups).flat().length
+      ) {
+        return enabled;
+      }
+      await this.storageDao.saveTabGroups(nextTabGroups);
+      return true;
+    } catch (error) {
+      console.error(
+        '❌ RuleService.removeTab failed:',
+        'Tab ID:',
+        tabId,
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: RULE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 调整规则组顺序，顺序决定同优先级规则的生效先后
+   */
+  async reorderGroups(groupIds: string[]): Promise<void> {
+    try {
+      const groups = await this.loadGroups();
+      const groupMap = new Map(groups.map(group => [group.id, group]));
+
+      if (
+        groupIds.length !== groups.length ||
+        new Set(groupIds).size !== groupIds.length ||
+        groupIds.some(id => !groupMap.has(id))
+      ) {
+        throw new Error('规则组顺序与现有规则组不一致');
+      }
+
+      await this.saveGroups(groupIds.map(id => groupMap.get(id)!));
+    } catch (error) {
+      console.error(
+        '❌ RuleService.reorderGroups failed:',
+        'Group IDs:',
+        groupIds,
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: RULE_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 按ID或名称查找规则组，ID 优先
+   */
+  async findGroup(key: string): Promise<GroupRuleVo | null> {
+    const groups = await this.loadGroups();
+    return (
+      groups.find(group => group.id === key) ??
+      groups.find(group => group.groupName === key) ??
+      null
+    );
+  }
+
   /**
    * 获取指定规则组
    */
@@ -314,6 +640,49 @@ export class RuleService {
     if (typeof group.ruleText !== 'string') {
       throw new Error('规则组内容必须是字符串');
     }
+
+    if (
+      group.expiresAt !== undefined &&
+      (typeof group.expiresAt !== 'string' ||
+        Number.isNaN(Date.parse(group.expiresAt)))
+    ) {
+      throw new Error('规则组自动停用时间格式不正确');
+    }
+
+    if (group.activateOn !== undefined) {
+      if (
+        !Array.isArray(group.activateOn) ||
+        group.activateOn.some(pattern => typeof pattern !== 'string')
+      ) {
+        throw new Error('自动启用的地址模式必须是字符串数组');
+      }
+      group.activateOn.forEach(pattern => {
+        try {
+          compileRule({ source: pattern, target: '', action: 'block' });
+        } catch (error) {
+          throw new Error(
+            `自动启用的地址模式无效: ${pattern} (${
+              error instanceof Error ? error.message : String(error)
+            })`
+          );
+        }
+      });
+    }
+  }
+
+  /**
+   * 页面地址是否匹配自动启用的地址模式，无法编译的模式视为不匹配
+   */
+  private isActivateOnMatched(url: string, pattern: string): boolean {
+    try {
+      return compileRule({
+        source: pattern,
+        target: '',
+        action: 'block',
+      }).matches(url);
+    } catch {
+      return false;
+    }
   }
 
   /**
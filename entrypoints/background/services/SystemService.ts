@@ -1,9 +1,21 @@
-import { GroupRuleVo } from '../../../types';
+import {
+  GroupRuleVo,
+  RuleHitInfo,
+  RuleStatus,
+  SystemSettings,
+} from '../../../types';
 import { countActiveRules, validateJsonFormat } from '../../utils/json';
 import { networkService } from '../../utils/network';
+import { UpdateScheduler } from '../../utils/scheduler';
 import { StorageDao } from '../dao/StorageDao';
+import { ProfileService } from './ProfileService';
 import { RuleService } from './RuleService';
 
+/** 规则组到达自动停用时间的闹钟 */
+const GROUP_EXPIRY_ALARM = 'xswitch_group_expiry';
+/** 长时间未修改配置后关闭全局开关的闹钟 */
+const AUTO_OFF_ALARM = 'xswitch_auto_off';
+
 /**
  * 系统服务 - 负责全局设置、徽章管理等系统级功能
  */
@@ -11,10 +23,22 @@ export class SystemService {
   private static instance: SystemService;
   private storageDao: StorageDao;
   private ruleService: RuleService;
+  private profileService: ProfileService;
+  private rulesUpdateScheduler: UpdateScheduler;
+  /** 最近一次规则更新时自动启用的规则组，前台页面变化后据此判断是否需要更新 */
+  private appliedAutoGroupIds: string | undefined;
 
   private constructor() {
     this.storageDao = StorageDao.getInstance();
     this.ruleService = RuleService.getInstance();
+    this.profileService = ProfileService.getInstance();
+    this.rulesUpdateScheduler = new UpdateScheduler(() =>
+      Promise.all([
+        this.updateNetworkRules(),
+        this.updateBadge(),
+        this.updateExpiryAlarm(),
+      ]).then(() => undefined)
+    );
   }
 
   static getInstance(): SystemService {
@@ -65,16 +89,61 @@ export class SystemService {
     }
   }
 
+  /**
+   * 加载系统设置
+   */
+  async loadSettings(): Promise<SystemSettings> {
+    console.log('🔄 SystemService.loadSettings');
+    try {
+      return await this.storageDao.loadSettings();
+    } catch (error) {
+      console.error(
+        '❌ SystemService.loadSettings failed:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: SYSTEM_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * 保存系统设置（合并到已有设置）
+   */
+  async saveSettings(
+    settings: Partial<SystemSettings>
+  ): Promise<SystemSettings> {
+    console.log('🔄 SystemService.saveSettings:', JSON.stringify(settings));
+    try {
+      const current = await this.storageDao.loadSettings();
+      const merged = { ...current, ...settings };
+      await this.storageDao.saveSettings(merged);
+      console.log('✅ SystemService.saveSettings success');
+      return merged;
+    } catch (error) {
+      console.error(
+        '❌ SystemService.saveSettings failed:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: SYSTEM_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
   /**
    * 更新徽章状态
    */
   async updateBadge(): Promise<void> {
     console.log('🔄 SystemService.updateBadge');
     try {
-      const [groups, globalEnabled] = await Promise.all([
-        this.ruleService.loadGroups(),
-        this.loadGlobalEnabled(),
-      ]);
+      const [groups, globalEnabled, activeProfile, autoGroupIds] =
+        await Promise.all([
+          this.ruleService.loadGroups(),
+          this.loadGlobalEnabled(),
+          this.profileService.getActiveProfile(),
+          this.loadAutoGroupIds(),
+        ]);
 
       console.log(
         '📊 Badge update data:',
@@ -82,6 +151,8 @@ export class SystemService {
           groups: groups.length,
           globalEnabled,
           enabledGroups: groups.filter(g => g.enabled).length,
+          activeProfile: activeProfile?.name,
+          autoGroups: autoGroupIds.length,
         })
       );
 
@@ -90,6 +161,18 @@ export class SystemService {
         this.setBadge('OFF', '#ff4d4f');
         return;
       }
+      // 自动启用随前台页面变化，优先于方案提示
+      if (autoGroupIds.length > 0) {
+        this.setBadge('AUTO', '#722ed1');
+        console.log('✅ SystemService.updateBadge success');
+        return;
+      }
+      // 徽章只能显示很短的文本，取方案名称的前 4 个字符
+      if (activeProfile) {
+        this.setBadge([...activeProfile.name].slice(0, 4).join(''), '#1677ff');
+        console.log('✅ SystemService.updateBadge success');
+        return;
+      }
       this.setBadge('', '');
 
       // const totalActiveRules = this.calculateTotalActiveRules(groups);
@@ -121,10 +204,26 @@ export class SystemService {
   async updateNetworkRules(): Promise<void> {
     console.log('🔄 SystemService.updateNetworkRules');
     try {
-      const [groups, globalEnabled] = await Promise.all([
+      const [
+        storedGroups,
+        globalEnabled,
+        settings,
+        tabGroups,
+        disabledTabIds,
+        autoGroupIds,
+      ] = await Promise.all([
         this.ruleService.loadGroups(),
         this.loadGlobalEnabled(),
+        this.loadSettings(),
+        this.ruleService.loadTabGroups(),
+        this.ruleService.loadDisabledTabIds(),
+        this.loadAutoGroupIds(),
       ]);
+      this.appliedAutoGroupIds = JSON.stringify(autoGroupIds);
+      // 自动启用的规则组按启用处理，存储中的启用状态不变
+      const groups = storedGroups.map(group =>
+        autoGroupIds.includes(group.id) ? { ...group, enabled: true } : group
+      );
 
       console.log(
         '📊 Network rules update data:',
@@ -132,10 +231,24 @@ export class SystemService {
           groups: groups.length,
           globalEnabled,
           enabledGroups: groups.filter(g => g.enabled).length,
+          tabGroups: Object.keys(tabGroups).length,
+          disabledTabs: disabledTabIds.length,
+          autoGroups: autoGroupIds.length,
         })
       );
 
-      await networkService.updateRules(groups, globalEnabled);
+      await networkService.updateRules(
+        groups,
+        globalEnabled,
+        settings,
+        tabGroups,
+        disabledTabIds
+      );
+      // 浏览器拒绝规则时仍在使用之前的规则，需要让调用方知道这次变更没有生效
+      const { applyError } = networkService.getRuleStatus();
+      if (applyError) {
+        throw new Error(`规则更新失败: ${applyError}`);
+      }
 
       console.log('✅ SystemService.updateNetworkRules success');
     } catch (error) {
@@ -149,17 +262,83 @@ export class SystemService {
     }
   }
 
+  /**
+   * 调度网络规则与徽章更新：连续的变更合并为一次，同一时刻只有一次更新在执行，
+   * 每次执行都读取最新的存储状态。返回的 Promise 在包含本次变更的规则生效后结束
+   */
+  scheduleRulesUpdate(): Promise<void> {
+    return this.rulesUpdateScheduler.schedule();
+  }
+
+  /**
+   * 获取因前台页面地址匹配而自动启用的规则组ID
+   */
+  async loadAutoGroupIds(): Promise<string[]> {
+    try {
+      return await this.ruleService.getAutoGroupIds(
+        await this.getFrontTabUrl()
+      );
+    } catch (error) {
+      console.error(
+        '❌ SystemService.loadAutoGroupIds failed:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: SYSTEM_SERVICE_ERROR'
+      );
+      return [];
+    }
+  }
+
+  /**
+   * 获取最近一次规则更新的状态（跳过的规则、因配额停用的规则组）
+   */
+  getRuleStatus(): RuleStatus {
+    return networkService.getRuleStatus();
+  }
+
+  /**
+   * 查询浏览器记录的最近命中规则
+   */
+  async getMatchedRules(tabId?: number): Promise<RuleHitInfo[]> {
+    console.log('🔄 SystemService.getMatchedRules:', tabId);
+    try {
+      return await networkService.getMatchedRules(tabId);
+    } catch (error) {
+      console.error(
+        '❌ SystemService.getMatchedRules failed:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: SYSTEM_SERVICE_ERROR'
+      );
+      throw error;
+    }
+  }
+
   /**
    * 初始化系统（启动时调用）
    */
   async initialize(): Promise<void> {
     console.log('🔄 SystemService.initialize');
     try {
+      // 先升级旧版本的存储结构，失败时保留原数据，下次启动时重试
+      await this.storageDao.runMigrations().catch(error => {
+        console.error(
+          '❌ SystemService.initialize migration failed, keeping stored data:',
+          'Error:',
+          error instanceof Error ? error.message : String(error),
+          'Code: STORAGE_MIGRATION_ERROR'
+        );
+      });
+
       // 初始化默认数据
       await this.ruleService.initializeDefaultData();
 
+      // 浏览器关闭期间错过的定时停用在启动时补上；唤醒时保留已有的自动关闭闹钟
+      await this.ruleService.expireGroups();
+      await this.updateAutoOffAlarm(false);
+
       // 更新网络规则和徽章
-      await Promise.all([this.updateNetworkRules(), this.updateBadge()]);
+      await this.scheduleRulesUpdate();
 
       console.log('✅ SystemService.initialize success');
     } catch (error) {
@@ -184,20 +363,289 @@ export class SystemService {
         JSON.stringify(changes)
       );
 
-      // 异步更新，避免阻塞
-      Promise.all([this.updateBadge(), this.updateNetworkRules()]).catch(
-        error => {
+      // 异步更新，避免阻塞；与其他来源的更新合并、串行执行
+      this.scheduleRulesUpdate().catch(error => {
+        console.error(
+          '❌ Error updating after storage change:',
+          'Error:',
+          error instanceof Error ? error.message : String(error),
+          'Code: STORAGE_CHANGE_ERROR'
+        );
+      });
+
+      // 修改配置视为一次操作，重新开始自动关闭的计时
+      this.updateAutoOffAlarm(true);
+    });
+  }
+
+  /**
+   * 监听闹钟：规则组到达自动停用时间、长时间未操作后关闭全局开关
+   */
+  setupAlarmListener(): void {
+    console.log('👂 SystemService.setupAlarmListener');
+    if (typeof browser === 'undefined' || !browser.alarms) {
+      console.warn('⚠️ No alarms API available');
+      return;
+    }
+
+    browser.alarms.onAlarm.addListener(alarm => {
+      if (alarm.name === GROUP_EXPIRY_ALARM) {
+        this.handleGroupExpiry();
+      } else if (alarm.name === AUTO_OFF_ALARM) {
+        this.handleAutoOff();
+      }
+    });
+  }
+
+  /**
+   * 监听标签页：关闭时移除只对该标签页生效的规则组，页面跳转时处理链接开关参数，
+   * 切换或前台页面跳转时重新计算自动启用的规则组
+   */
+  setupTabListener(): void {
+    console.log('👂 SystemService.setupTabListener');
+    if (typeof browser === 'undefined' || !browser.tabs?.onRemoved) {
+      console.warn('⚠️ No tabs API available');
+      return;
+    }
+
+    browser.tabs.onActivated.addListener(() => this.refreshAutoGroups());
+    browser.tabs.onUpdated.addListener((_tabId, changeInfo, tab) => {
+      if (changeInfo.url && tab.active) {
+        this.refreshAutoGroups();
+      }
+    });
+    // 链接开关在页面请求发出时处理，标签页地址变化的事件晚于页面请求
+    browser.webRequest?.onBeforeRequest.addListener(
+      details => {
+        if (details.tabId >= 0) {
+          this.applyUrlSwitch(details.tabId, details.url);
+        }
+        return undefined;
+      },
+      { urls: ['<all_urls>'], types: ['main_frame'] }
+    );
+    browser.windows?.onFocusChanged.addListener(() => this.refreshAutoGroups());
+
+    browser.tabs.onRemoved.addListener(tabId => {
+      this.ruleService
+        .removeTab(tabId)
+        .then(changed => (changed ? this.scheduleRulesUpdate() : undefined))
+        .catch(error => {
           console.error(
-            '❌ Error updating after storage change:',
+            '❌ Error cleaning up tab rules:',
+            'Tab ID:',
+            tabId,
             'Error:',
             error instanceof Error ? error.message : String(error),
-            'Code: STORAGE_CHANGE_ERROR'
+            'Code: TAB_REMOVED_ERROR'
           );
-        }
+        });
+    });
+  }
+
+  /**
+   * 注册请求日志监听器（命中提示、CORS 来源回显），规则状态在首次使用时从会话存储恢复
+   */
+  setupNetworkListeners(): void {
+    console.log('👂 SystemService.setupNetworkListeners');
+    networkService.registerListeners();
+  }
+
+  /**
+   * 按最早到期的已启用规则组设置闹钟，没有定时停用的规则组时清除
+   */
+  private async updateExpiryAlarm(): Promise<void> {
+    if (typeof browser === 'undefined' || !browser.alarms) {
+      return;
+    }
+    try {
+      const groups = await this.ruleService.loadGroups();
+      const expiresTimes = groups
+        .filter(group => group.enabled && group.expiresAt)
+        .map(group => Date.parse(group.expiresAt!));
+      if (expiresTimes.length === 0) {
+        await browser.alarms.clear(GROUP_EXPIRY_ALARM);
+        return;
+      }
+      await browser.alarms.create(GROUP_EXPIRY_ALARM, {
+        when: Math.min(...expiresTimes),
+      });
+    } catch (error) {
+      console.error(
+        '❌ SystemService.updateExpiryAlarm failed:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: ALARM_ERROR'
+      );
+    }
+  }
+
+  /**
+   * 停用已到期的规则组并通知，闹钟在规则更新后按下一个到期时间重新设置
+   */
+  private async handleGroupExpiry(): Promise<void> {
+    try {
+      const expired = await this.ruleService.expireGroups();
+      if (expired.length > 0) {
+        this.notify(
+          '规则组已自动停用',
+          expired.map(group => group.groupName).join('、')
+        );
+      }
+      await this.scheduleRulesUpdate();
+    } catch (error) {
+      console.error(
+        '❌ Error expiring groups:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: ALARM_ERROR'
+      );
+    }
+  }
+
+  /**
+   * 长时间未操作，关闭全局开关并通知
+   */
+  private async handleAutoOff(): Promise<void> {
+    try {
+      const [globalEnabled, { autoOffHours }] = await Promise.all([
+        this.loadGlobalEnabled(),
+        this.loadSettings(),
+      ]);
+      if (!globalEnabled || !(autoOffHours > 0)) {
+        return;
+      }
+      await this.saveGlobalEnabled(false);
+      this.notify('代理已自动关闭', `已超过 ${autoOffHours} 小时未操作`);
+    } catch (error) {
+      console.error(
+        '❌ Error turning off after inactivity:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: ALARM_ERROR'
+      );
+    }
+  }
+
+  /**
+   * 设置自动关闭全局开关的闹钟，未开启该设置或全局开关已关闭时清除。
+   * reset 为 false 时保留已有的闹钟，避免 Service Worker 每次唤醒都重新计时
+   */
+  private async updateAutoOffAlarm(reset: boolean): Promise<void> {
+    if (typeof browser === 'undefined' || !browser.alarms) {
+      return;
+    }
+    try {
+      const [globalEnabled, { autoOffHours }] = await Promise.all([
+        this.loadGlobalEnabled(),
+        this.loadSettings(),
+      ]);
+      if (!globalEnabled || !(autoOffHours > 0)) {
+        await browser.alarms.clear(AUTO_OFF_ALARM);
+        return;
+      }
+      if (!reset && (await browser.alarms.get(AUTO_OFF_ALARM))) {
+        return;
+      }
+      await browser.alarms.create(AUTO_OFF_ALARM, {
+        delayInMinutes: autoOffHours * 60,
+      });
+    } catch (error) {
+      console.error(
+        '❌ SystemService.updateAutoOffAlarm failed:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: ALARM_ERROR'
+      );
+    }
+  }
+
+  /**
+   * 显示系统通知，不支持通知的环境下忽略
+   */
+  private notify(title: string, message: string): void {
+    if (typeof browser === 'undefined' || !browser.notifications) {
+      return;
+    }
+    browser.notifications
+      .create({
+        type: 'basic',
+        iconUrl: browser.runtime.getURL('/icon/128.png'),
+        title,
+        message,
+      })
+      .catch(error => {
+        console.error(
+          '❌ Failed to show notification:',
+          'Error:',
+          error instanceof Error ? error.message : String(error),
+          'Code: NOTIFICATION_ERROR'
+        );
+      });
+  }
+
+  /**
+   * 页面地址带有链接开关参数时切换所在标签页的规则，未配置参数名时不处理。
+   * 规则生效前页面请求已经发出，切换后重新打开该地址，使页面按新规则加载
+   */
+  private async applyUrlSwitch(tabId: number, url: string): Promise<void> {
+    try {
+      const { urlSwitchKey } = await this.loadSettings();
+      if (!urlSwitchKey) {
+        return;
+      }
+      const value = new URL(url).searchParams.get(urlSwitchKey);
+      if (value === null) {
+        return;
+      }
+      if (await this.ruleService.applyUrlSwitch(tabId, value)) {
+        await this.scheduleRulesUpdate();
+        await browser.tabs.update(tabId, { url });
+      }
+    } catch (error) {
+      console.error(
+        '❌ Error applying URL switch:',
+        'Tab ID:',
+        tabId,
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: URL_SWITCH_ERROR'
+      );
+    }
+  }
+
+  /**
+   * 前台页面变化后重新计算自动启用的规则组，与最近一次生效的不同时才更新规则
+   */
+  private async refreshAutoGroups(): Promise<void> {
+    const autoGroupIds = await this.loadAutoGroupIds();
+    if (JSON.stringify(autoGroupIds) === this.appliedAutoGroupIds) {
+      return;
+    }
+    this.scheduleRulesUpdate().catch(error => {
+      console.error(
+        '❌ Error updating after front page change:',
+        'Error:',
+        error instanceof Error ? error.message : String(error),
+        'Code: AUTO_GROUPS_ERROR'
       );
     });
   }
 
+  /**
+   * 最近获得焦点的窗口中当前显示的页面地址
+   */
+  private async getFrontTabUrl(): Promise<string | undefined> {
+    if (typeof browser === 'undefined' || !browser.tabs) {
+      return undefined;
+    }
+    const [tab] = await browser.tabs.query({
+      active: true,
+      lastFocusedWindow: true,
+    });
+    return tab?.url;
+  }
+
   /**
    * 计算总的活跃规则数量
    */
@@ -1,4 +1,4 @@
-import { GroupRuleVo } from '../../../types';
+import { GroupRuleVo, ProfileVo, SystemSettings } from '../../../types';
 
 /**
  * API请求类型枚举
@@ -11,12 +11,28 @@ export enum ApiRequestType {
   UPDATE_GROUP = 'UPDATE_GROUP',
   DELETE_GROUP = 'DELETE_GROUP',
   TOGGLE_GROUP = 'TOGGLE_GROUP',
+  ENABLE_GROUP_UNTIL = 'ENABLE_GROUP_UNTIL',
+  REORDER_GROUPS = 'REORDER_GROUPS',
+  LOAD_TAB_GROUPS = 'LOAD_TAB_GROUPS',
+  TOGGLE_TAB_GROUP = 'TOGGLE_TAB_GROUP',
+  LOAD_AUTO_GROUPS = 'LOAD_AUTO_GROUPS',
+
+  // 方案管理
+  LOAD_PROFILES = 'LOAD_PROFILES',
+  CREATE_PROFILE = 'CREATE_PROFILE',
+  UPDATE_PROFILE = 'UPDATE_PROFILE',
+  DELETE_PROFILE = 'DELETE_PROFILE',
+  ACTIVATE_PROFILE = 'ACTIVATE_PROFILE',
 
   // 全局设置
   LOAD_GLOBAL_ENABLED = 'LOAD_GLOBAL_ENABLED',
   SAVE_GLOBAL_ENABLED = 'SAVE_GLOBAL_ENABLED',
+  LOAD_SETTINGS = 'LOAD_SETTINGS',
+  SAVE_SETTINGS = 'SAVE_SETTINGS',
 
   // 系统操作
+  GET_RULE_STATUS = 'GET_RULE_STATUS',
+  GET_MATCHED_RULES = 'GET_MATCHED_RULES',
   UPDATE_BADGE = 'UPDATE_BADGE',
   CLEAR_ALL_DATA = 'CLEAR_ALL_DATA',
   INITIALIZE_DEFAULT_DATA = 'INITIALIZE_DEFAULT_DATA',
@@ -71,6 +87,68 @@ export interface ToggleGroupRequest {
   groupId: string;
 }
 
+/**
+ * 调整规则组顺序请求参数
+ */
+export interface ReorderGroupsRequest {
+  groupIds: string[];
+}
+
+/**
+ * 查询标签页单独启用的规则组请求参数
+ */
+export interface LoadTabGroupsRequest {
+  tabId: number;
+}
+
+/**
+ * 启用规则组并在指定时间自动停用请求参数
+ */
+export interface EnableGroupUntilRequest {
+  groupId: string;
+  /** 自动停用时间（ISO 格式） */
+  expiresAt: string;
+}
+
+/**
+ * 设置规则组仅在指定标签页生效请求参数
+ */
+export interface ToggleTabGroupRequest {
+  groupId: string;
+  tabId: number;
+  enabled: boolean;
+}
+
+/**
+ * 创建方案请求参数，未指定规则组时使用当前启用的规则组
+ */
+export interface CreateProfileRequest {
+  name: string;
+  groupIds?: string[];
+}
+
+/**
+ * 更新方案请求参数
+ */
+export interface UpdateProfileRequest {
+  profileId: string;
+  updates: Partial<Pick<ProfileVo, 'name' | 'groupIds'>>;
+}
+
+/**
+ * 删除方案请求参数
+ */
+export interface DeleteProfileRequest {
+  profileId: string;
+}
+
+/**
+ * 激活方案请求参数
+ */
+export interface ActivateProfileRequest {
+  profileId: string;
+}
+
 /**
  * 保存全局启用状态请求参数
  */
@@ -78,6 +156,20 @@ export interface SaveGlobalEnabledRequest {
   enabled: boolean;
 }
 
+/**
+ * 保存系统设置请求参数
+ */
+export interface SaveSettingsRequest {
+  settings: Partial<SystemSettings>;
+}
+
+/**
+ * 查询命中规则请求参数，未指定标签页时返回所有标签页的命中
+ */
+export interface GetMatchedRulesRequest {
+  tabId?: number;
+}
+
 /**
  * 消息发送器接口
  */
@@ -7,11 +7,18 @@ interface ProxyHitData {
   timestamp: number;
 }
 
-interface BackgroundMessage {
-  type: 'PROXY_HIT';
-  data: ProxyHitData;
+interface ProxyBlockedData {
+  originalUrl: string;
+  ruleName: string;
+  requestType: string;
+  method: string;
+  timestamp: number;
 }
 
+type BackgroundMessage =
+  | { type: 'PROXY_HIT'; data: ProxyHitData }
+  | { type: 'PROXY_BLOCKED'; data: ProxyBlockedData };
+
 export default defineContentScript({
   matches: ['<all_urls>'],
   main() {
@@ -19,17 +26,17 @@ export default defineContentScript({
 
     // 监听来自 background script 的代理匹配消息
     if (typeof browser !== 'undefined' && browser.runtime) {
-      browser.runtime.onMessage.addListener((message: BackgroundMessage) => {
-        if (message.type === 'PROXY_HIT') {
-          handleProxyHit(message.data);
-        }
-      });
+      browser.runtime.onMessage.addListener(handleBackgroundMessage);
     } else if (typeof chrome !== 'undefined' && chrome.runtime) {
-      chrome.runtime.onMessage.addListener((message: BackgroundMessage) => {
-        if (message.type === 'PROXY_HIT') {
-          handleProxyHit(message.data);
-        }
-      });
+      chrome.runtime.onMessage.addListener(handleBackgroundMessage);
+    }
+
+    function handleBackgroundMessage(message: BackgroundMessage) {
+      if (message.type === 'PROXY_HIT') {
+        handleProxyHit(message.data);
+      } else if (message.type === 'PROXY_BLOCKED') {
+        handleProxyBlocked(message.data);
+      }
     }
 
     function handleProxyHit(data: ProxyHitData) {
@@ -50,14 +57,45 @@ export default defineContentScript({
       }
     }
 
+    function handleProxyBlocked(data: ProxyBlockedData) {
+      console.warn(
+        `🚫 [XSwitch V3] 请求已拦截
+        | 规则: ${data.ruleName}
+        | 地址: ${data.originalUrl}`
+      );
+
+      if (
+        data.requestType === 'main_frame' ||
+        data.requestType === 'xmlhttprequest'
+      ) {
+        showNotification(
+          '🚫 XSwitch 请求拦截',
+          [`规则: ${data.ruleName}`, `地址: ${data.originalUrl}`],
+          '#f44336'
+        );
+      }
+    }
+
     function showProxyNotification(data: ProxyHitData) {
+      showNotification(
+        '🔀 XSwitch 代理匹配',
+        [`规则: ${data.ruleName}`, `目标: ${data.targetUrl}`],
+        '#4CAF50'
+      );
+    }
+
+    function showNotification(
+      title: string,
+      lines: string[],
+      background: string
+    ) {
       // 创建一个简单的页面通知
       const notification = document.createElement('div');
       notification.style.cssText = `
         position: fixed;
         top: 20px;
         right: 20px;
-        background: #4CAF50;
+        background: ${background};
         color: white;
         padding: 12px 16px;
         border-radius: 4px;
@@ -69,11 +107,17 @@ export default defineContentScript({
         transition: opacity 0.3s ease;
       `;
 
-      notification.innerHTML = `
-        <div style="font-weight: bold; margin-bottom: 4px;">🔀 XSwitch 代理匹配</div>
-        <div style="font-size: 12px;">规则: ${data.ruleName}</div>
-        <div style="font-size: 12px;">目标: ${data.targetUrl}</div>
-      `;
+      const titleElement = document.createElement('div');
+      titleElement.style.cssText = 'font-weight: bold; margin-bottom: 4px;';
+      titleElement.textContent = title;
+      notification.appendChild(titleElement);
+
+      lines.forEach(line => {
+        const lineElement = document.createElement('div');
+        lineElement.style.cssText = 'font-size: 12px; word-break: break-all;';
+        lineElement.textContent = line;
+        notification.appendChild(lineElement);
+      });
 
       document.body.appendChild(notification);
 
@@ -1,19 +1,29 @@
 import {
+  AimOutlined,
+  ArrowDownOutlined,
+  ArrowUpOutlined,
+  ClockCircleOutlined,
   CodeOutlined,
   CopyOutlined,
   DeleteOutlined,
   EditOutlined,
   PlusOutlined,
   QuestionCircleOutlined,
+  SettingOutlined,
+  ThunderboltOutlined,
 } from '@ant-design/icons';
 import { useDebounceFn, useMemoizedFn, useRequest } from 'ahooks';
 import {
   Alert,
   Button,
   Checkbox,
+  Dropdown,
   Input,
+  InputNumber,
   List,
   Modal,
+  Popover,
+  Select,
   Space,
   Spin,
   Switch,
@@ -22,19 +32,36 @@ import {
 } from 'antd';
 import useMessage from 'antd/es/message/useMessage';
 import { useEffect, useMemo, useState } from 'react';
-import { GroupRuleVo } from '../../types';
+import { GroupRuleVo, SystemSettings } from '../../types';
 import { DEFAULT_NEW_RULE } from '../utils/const';
-import { validateJsonFormat } from '../utils/json';
+import {
+  DEFAULT_BASE_URL,
+  parseJsonWithComments,
+  parseVariables,
+  validateJsonFormat,
+} from '../utils/json';
 import {
   loadGroupsRequest,
   saveGroupRequest,
   createGroupRequest,
   deleteGroupRequest,
   toggleGroupRequest,
+  enableGroupUntilRequest,
   updateGroupRequest,
+  reorderGroupsRequest,
   loadGlobalEnabledRequest,
   saveGlobalEnabledRequest,
   initializeDefaultDataRequest,
+  loadSettingsRequest,
+  saveSettingsRequest,
+  getRuleStatusRequest,
+  loadProfilesRequest,
+  createProfileRequest,
+  activateProfileRequest,
+  loadTabGroupsRequest,
+  toggleTabGroupRequest,
+  getCurrentTabId,
+  loadAutoGroupsRequest,
 } from './api';
 import './App.css';
 import CodeMirrorEditor from './components/code-mirror-editor';
@@ -54,6 +81,7 @@ function App() {
   const [newGroupName, setNewGroupName] = useState('');
   const [editingGroupId, setEditingGroupId] = useState<string>('');
   const [editingGroupName, setEditingGroupName] = useState('');
+  const [newProfileName, setNewProfileName] = useState('');
 
   // 加载规则组
   const { data: groups = [], runAsync: loadGroups } = useRequest(async () => {
@@ -69,6 +97,43 @@ function App() {
     return groups.find(group => group.id === selectedGroupId) ?? { id: null };
   }, [groups, selectedGroupId]);
 
+  // 加载方案：是否激活取决于规则组启用状态，规则组变化后重新加载
+  const { data: profileState, runAsync: loadProfiles } = useRequest(
+    async () => {
+      const profileResult = await loadProfilesRequest();
+      if (!profileResult.success) {
+        throw new Error(profileResult.error || '加载方案失败');
+      }
+      return profileResult.data;
+    },
+    { refreshDeps: [groups] }
+  );
+
+  // 当前标签页及在其中单独启用的规则组
+  const { data: tabState, mutate: setTabState } = useRequest(async () => {
+    const tabId = await getCurrentTabId();
+    if (tabId === undefined) {
+      return undefined;
+    }
+    const tabGroupsResult = await loadTabGroupsRequest(tabId);
+    if (!tabGroupsResult.success) {
+      throw new Error(tabGroupsResult.error || '加载标签页规则组失败');
+    }
+    return { tabId, groupIds: tabGroupsResult.data || [] };
+  });
+
+  // 因当前页面地址匹配而自动启用的规则组，规则组变化后重新加载
+  const { data: autoGroupIds = [] } = useRequest(
+    async () => {
+      const autoGroupsResult = await loadAutoGroupsRequest();
+      if (!autoGroupsResult.success) {
+        throw new Error(autoGroupsResult.error || '加载自动启用的规则组失败');
+      }
+      return autoGroupsResult.data || [];
+    },
+    { refreshDeps: [groups] }
+  );
+
   // 加载全局启用状态
   const { data: globalEnabled, runAsync: loadGlobalEnabled } = useRequest(
     async () => {
@@ -80,6 +145,27 @@ function App() {
     }
   );
 
+  // 加载系统设置
+  const { data: settings, mutate: setSettings } = useRequest(async () => {
+    const settingsResult = await loadSettingsRequest();
+    if (!settingsResult.success) {
+      throw new Error(settingsResult.error || '加载系统设置失败');
+    }
+    return settingsResult.data;
+  });
+
+  // 规则生效状态：规则更新在后台异步完成，定时刷新
+  const { data: ruleStatus } = useRequest(
+    async () => {
+      const statusResult = await getRuleStatusRequest();
+      if (!statusResult.success) {
+        throw new Error(statusResult.error || '加载规则状态失败');
+      }
+      return statusResult.data;
+    },
+    { pollingInterval: 2000 }
+  );
+
   // 更新徽章
   const { runAsync: updateBadge } = useRequest(async () => {
     // 已经全局监听，无需手动触发
@@ -110,6 +196,29 @@ function App() {
     }
   }, [groups, selectedGroupId]);
 
+  // 因超出规则配额而停用的规则组
+  const droppedGroupIds = useMemo(
+    () => new Set(ruleStatus?.droppedGroups.map(group => group.id)),
+    [ruleStatus]
+  );
+
+  // 当前规则组中未生效的规则
+  const selectedGroupRuleErrors = useMemo(
+    () =>
+      ruleStatus?.errors.filter(error => error.groupId === selectedGroup.id) ??
+      [],
+    [ruleStatus, selectedGroup.id]
+  );
+
+  // 当前规则组中需要从首个请求记录来源的回显 CORS 规则
+  const selectedGroupLearnedCors = useMemo(
+    () =>
+      ruleStatus?.learnedCorsRules
+        .filter(rule => rule.groupId === selectedGroup.id)
+        .map(rule => rule.pattern) ?? [],
+    [ruleStatus, selectedGroup.id]
+  );
+
   // 验证所有规则组的JSON格式
   const jsonErrors = useMemo(() => {
     const errors: Record<string, string> = {};
@@ -170,6 +279,39 @@ function App() {
     await updateBadge();
   };
 
+  /**
+   * 处理系统设置变更
+   */
+  const handleSettingsChange = async (updates: Partial<SystemSettings>) => {
+    const saveResult = await saveSettingsRequest(updates);
+    if (!saveResult.success) {
+      message.error('保存设置失败: ' + saveResult.error);
+      return;
+    }
+    setSettings(saveResult.data);
+  };
+
+  /**
+   * 处理全局变量变更，内容为 JSON 对象，未修改时不保存
+   */
+  const handleVarsChange = async (text: string) => {
+    let value: unknown;
+    try {
+      value = text.trim() ? parseJsonWithComments(text) : {};
+    } catch {
+      value = undefined;
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      message.error('全局变量应为 JSON 对象，例如 { "DEV_HOST": "..." }');
+      return;
+    }
+
+    const vars = parseVariables(value);
+    if (JSON.stringify(vars) !== JSON.stringify(settings?.vars ?? {})) {
+      await handleSettingsChange({ vars });
+    }
+  };
+
   /**
    * 处理编辑器内容变化
    */
@@ -214,6 +356,37 @@ function App() {
     message.success('规则组创建成功');
   };
 
+  /**
+   * 将当前启用的规则组保存为新方案
+   */
+  const handleCreateProfile = async () => {
+    if (!newProfileName.trim()) {
+      message.error('请输入方案名称');
+      return;
+    }
+    const result = await createProfileRequest(newProfileName.trim());
+    if (!result.success) {
+      message.error('创建方案失败: ' + result.error);
+      return;
+    }
+    setNewProfileName('');
+    await loadProfiles();
+    message.success('方案已保存');
+  };
+
+  /**
+   * 激活方案，规则组启用状态一次性切换
+   */
+  const handleActivateProfile = async (profileId: string) => {
+    const result = await activateProfileRequest(profileId);
+    if (!result.success) {
+      message.error('切换方案失败: ' + result.error);
+      return;
+    }
+    await loadGroups();
+    await updateBadge();
+  };
+
   /**
    * 删除规则组
    */
@@ -262,6 +435,98 @@ function App() {
       { manual: true }
     );
 
+  /**
+   * 启用规则组一段时间，到期后由后台自动停用：hour 为 1 小时后，tomorrow 为明天 0 点
+   */
+  const handleEnableGroupUntil = async (
+    groupId: string,
+    duration: 'hour' | 'tomorrow'
+  ) => {
+    const expiresAt = new Date();
+    if (duration === 'hour') {
+      expiresAt.setHours(expiresAt.getHours() + 1);
+    } else {
+      expiresAt.setDate(expiresAt.getDate() + 1);
+      expiresAt.setHours(0, 0, 0, 0);
+    }
+    const result = await enableGroupUntilRequest(
+      groupId,
+      expiresAt.toISOString()
+    );
+    if (!result.success) {
+      message.error('操作失败: ' + result.error);
+      return;
+    }
+    await loadGroups();
+    await updateBadge();
+    message.success(`规则组将于 ${expiresAt.toLocaleString()} 自动停用`);
+  };
+
+  /**
+   * 切换规则组是否仅在当前标签页启用，标签页关闭后自动失效
+   */
+  const handleToggleTabGroup = async (groupId: string) => {
+    if (!tabState) {
+      return;
+    }
+    const enabled = !tabState.groupIds.includes(groupId);
+    const result = await toggleTabGroupRequest(
+      groupId,
+      tabState.tabId,
+      enabled
+    );
+    if (!result.success) {
+      message.error('操作失败: ' + result.error);
+      return;
+    }
+    setTabState({ tabId: tabState.tabId, groupIds: result.data || [] });
+    message.success(
+      enabled ? '规则组已在当前标签页启用' : '已取消在当前标签页启用'
+    );
+  };
+
+  /**
+   * 保存规则组的自动启用地址模式，每行一个，未修改时不保存
+   */
+  const handleActivateOnChange = async (group: GroupRuleVo, text: string) => {
+    const activateOn = text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean);
+    if (activateOn.join('\n') === (group.activateOn ?? []).join('\n')) {
+      return;
+    }
+    const result = await updateGroupRequest(group.id, { activateOn });
+    if (!result.success) {
+      message.error('保存失败: ' + result.error);
+      return;
+    }
+    await loadGroups();
+  };
+
+  /**
+   * 上移/下移规则组，靠前的规则组在优先级相同时先生效
+   */
+  const handleMoveGroup = async (groupId: string, offset: -1 | 1) => {
+    const index = groups.findIndex(group => group.id === groupId);
+    const targetIndex = index + offset;
+    if (index < 0 || targetIndex < 0 || targetIndex >= groups.length) {
+      return;
+    }
+
+    const groupIds = groups.map(group => group.id);
+    [groupIds[index], groupIds[targetIndex]] = [
+      groupIds[targetIndex],
+      groupIds[index],
+    ];
+    const result = await reorderGroupsRequest(groupIds);
+    if (!result.success) {
+      message.error('调整顺序失败: ' + result.error);
+      return;
+    }
+    await loadGroups();
+  };
+
   /**
    * 开始编辑规则组名称
    */
@@ -344,6 +609,38 @@ function App() {
                 size="small"
               />
             </Space.Compact>
+            <Select
+              className="profile-select"
+              size="small"
+              placeholder="方案"
+              value={profileState?.activeProfileId}
+              options={profileState?.profiles.map(profile => ({
+                label: profile.name,
+                value: profile.id,
+              }))}
+              onChange={handleActivateProfile}
+              popupMatchSelectWidth={false}
+              popupRender={menu => (
+                <>
+                  {menu}
+                  <Space.Compact className="profile-create">
+                    <Input
+                      placeholder="保存当前启用的规则组"
+                      value={newProfileName}
+                      onChange={e => setNewProfileName(e.target.value)}
+                      onKeyDown={e => e.stopPropagation()}
+                      onPressEnter={handleCreateProfile}
+                      size="small"
+                    />
+                    <Button
+                      icon={<PlusOutlined />}
+                      onClick={handleCreateProfile}
+                      size="small"
+                    />
+                  </Space.Compact>
+                </>
+              )}
+            />
           </div>
           <div className="header-right">
             <Switch
@@ -352,6 +649,94 @@ function App() {
               unCheckedChildren="禁用"
               checkedChildren="启用"
             />
+            <Popover
+              trigger="click"
+              placement="bottomRight"
+              content={
+                <Space direction="vertical">
+                  <Checkbox
+                    checked={settings?.disableCache}
+                    onChange={e =>
+                      handleSettingsChange({ disableCache: e.target.checked })
+                    }
+                  >
+                    禁用代理资源缓存
+                  </Checkbox>
+                  <Checkbox
+                    checked={settings?.clearCacheOnUpdate}
+                    onChange={e =>
+                      handleSettingsChange({
+                        clearCacheOnUpdate: e.target.checked,
+                      })
+                    }
+                  >
+                    规则变更时清除缓存
+                  </Checkbox>
+                  <Input
+                    key={settings?.baseUrl}
+                    size="small"
+                    addonBefore="baseUrl"
+                    placeholder={DEFAULT_BASE_URL}
+                    defaultValue={settings?.baseUrl}
+                    onBlur={e => {
+                      const baseUrl = e.target.value.trim();
+                      if (baseUrl !== (settings?.baseUrl ?? '')) {
+                        handleSettingsChange({ baseUrl });
+                      }
+                    }}
+                  />
+                  <Input
+                    key={settings?.urlSwitchKey}
+                    size="small"
+                    addonBefore="链接开关"
+                    placeholder="参数名，如 __xswitch，留空不启用"
+                    defaultValue={settings?.urlSwitchKey}
+                    onBlur={e => {
+                      const urlSwitchKey = e.target.value.trim();
+                      if (urlSwitchKey !== (settings?.urlSwitchKey ?? '')) {
+                        handleSettingsChange({ urlSwitchKey });
+                      }
+                    }}
+                  />
+                  <InputNumber
+                    key={settings?.autoOffHours}
+                    size="small"
+                    min={0}
+                    precision={0}
+                    addonBefore="无操作"
+                    addonAfter="小时后关闭代理"
+                    placeholder="0 表示不自动关闭"
+                    defaultValue={settings?.autoOffHours || undefined}
+                    onBlur={e => {
+                      const autoOffHours = Math.max(
+                        0,
+                        Math.floor(Number(e.target.value) || 0)
+                      );
+                      if (autoOffHours !== (settings?.autoOffHours ?? 0)) {
+                        handleSettingsChange({ autoOffHours });
+                      }
+                    }}
+                  />
+                  <Input.TextArea
+                    key={JSON.stringify(settings?.vars)}
+                    rows={3}
+                    placeholder={
+                      '全局变量，规则中以 ${NAME} 引用\n{ "DEV_HOST": "http://127.0.0.1:3000" }'
+                    }
+                    defaultValue={
+                      settings?.vars && Object.keys(settings.vars).length > 0
+                        ? JSON.stringify(settings.vars, null, 2)
+                        : ''
+                    }
+                    onBlur={e => handleVarsChange(e.target.value)}
+                  />
+                </Space>
+              }
+            >
+              <Tooltip title="设置">
+                <Button type="link" icon={<SettingOutlined />} />
+              </Tooltip>
+            </Popover>
             <Tooltip title="标签页中打开">
               <Button
                 type="link"
@@ -379,7 +764,7 @@ function App() {
               <List
                 size="small"
                 dataSource={groups}
-                renderItem={group => (
+                renderItem={(group, index) => (
                   <List.Item
                     className={`group-item list-item ${
                       selectedGroupId === group.id ? 'selected' : ''
@@ -390,6 +775,117 @@ function App() {
                         className="group-item-action"
                         key="group-item-action"
                       >
+                        <Tooltip title="上移" key="up">
+                          <Button
+                            type="text"
+                            size="small"
+                            icon={<ArrowUpOutlined />}
+                            disabled={index === 0}
+                            onClick={e => {
+                              e.stopPropagation();
+                              handleMoveGroup(group.id, -1);
+                            }}
+                          />
+                        </Tooltip>
+                        <Tooltip title="下移" key="down">
+                          <Button
+                            type="text"
+                            size="small"
+                            icon={<ArrowDownOutlined />}
+                            disabled={index === groups.length - 1}
+                            onClick={e => {
+                              e.stopPropagation();
+                              handleMoveGroup(group.id, 1);
+                            }}
+                          />
+                        </Tooltip>
+                        <Tooltip
+                          title={
+                            tabState?.groupIds.includes(group.id)
+                              ? '取消仅当前标签页启用'
+                              : '仅在当前标签页启用'
+                          }
+                          key="tab"
+                        >
+                          <Button
+                            type={
+                              tabState?.groupIds.includes(group.id)
+                                ? 'link'
+                                : 'text'
+                            }
+                            size="small"
+                            icon={<AimOutlined />}
+                            disabled={!tabState || group.enabled}
+                            onClick={e => {
+                              e.stopPropagation();
+                              handleToggleTabGroup(group.id);
+                            }}
+                          />
+                        </Tooltip>
+                        <Dropdown
+                          key="expires"
+                          trigger={['click']}
+                          menu={{
+                            items: [
+                              { key: 'hour', label: '启用 1 小时' },
+                              { key: 'tomorrow', label: '启用到明天' },
+                            ],
+                            onClick: ({ key, domEvent }) => {
+                              domEvent.stopPropagation();
+                              handleEnableGroupUntil(
+                                group.id,
+                                key as 'hour' | 'tomorrow'
+                              );
+                            },
+                          }}
+                        >
+                          <Tooltip
+                            title={
+                              group.enabled && group.expiresAt
+                                ? `${new Date(group.expiresAt).toLocaleString()} 自动停用`
+                                : '定时启用'
+                            }
+                          >
+                            <Button
+                              type={
+                                group.enabled && group.expiresAt
+                                  ? 'link'
+                                  : 'text'
+                              }
+                              size="small"
+                              icon={<ClockCircleOutlined />}
+                              onClick={e => e.stopPropagation()}
+                            />
+                          </Tooltip>
+                        </Dropdown>
+                        <Popover
+                          trigger="click"
+                          key="activateOn"
+                          title="当前页面地址匹配时自动启用"
+                          content={
+                            <Input.TextArea
+                              key={group.activateOn?.join('\n')}
+                              rows={3}
+                              placeholder={
+                                '每行一个地址模式，语法与规则的源地址相同\nshop.example.com'
+                              }
+                              defaultValue={group.activateOn?.join('\n')}
+                              onClick={e => e.stopPropagation()}
+                              onBlur={e =>
+                                handleActivateOnChange(group, e.target.value)
+                              }
+                            />
+                          }
+                        >
+                          <Tooltip title="自动启用">
+                            <Button
+                              type={group.activateOn?.length ? 'link' : 'text'}
+                              size="small"
+                              icon={<ThunderboltOutlined />}
+                              onClick={e => e.stopPropagation()}
+                            />
+                          </Tooltip>
+                        </Popover>
                         <Tooltip title="编辑规则组名称" key="edit">
                           <Button
                             type="text"
@@ -458,11 +954,28 @@ function App() {
                               <Text
                                 className={`group-title-text ${
                                   group.enabled ? 'enabled' : 'disabled'
-                                } ${jsonErrors[group.id] ? 'error' : ''}`}
+                                } ${
+                                  autoGroupIds.includes(group.id)
+                                    ? 'auto-enabled'
+                                    : ''
+                                } ${
+                                  !group.enabled &&
+                                  tabState?.groupIds.includes(group.id)
+                                    ? 'tab-enabled'
+                                    : ''
+                                } ${jsonErrors[group.id] ? 'error' : ''} ${
+                                  droppedGroupIds.has(group.id) ? 'warning' : ''
+                                }`}
                                 title={
                                   jsonErrors[group.id]
                                     ? '存在语法错误'
-                                    : group.groupName
+                                    : droppedGroupIds.has(group.id)
+                                      ? '超出浏览器规则数量上限，已停用'
+                                      : autoGroupIds.includes(group.id)
+                                        ? '已根据当前页面自动启用'
+                                        : group.enabled && group.expiresAt
+                                          ? `${group.groupName}（${new Date(group.expiresAt).toLocaleString()} 自动停用）`
+                                          : group.groupName
                                 }
                               >
                                 {group.groupName}
@@ -492,6 +1005,47 @@ function App() {
                     className="error-alert"
                   />
                 )}
+                {ruleStatus?.applyError && (
+                  <Alert
+                    message="规则更新失败，仍在使用之前的规则"
+                    description={ruleStatus.applyError}
+                    type="error"
+                    showIcon
+                    className="error-alert"
+                  />
+                )}
+                {droppedGroupIds.has(selectedGroup.id ?? '') && (
+                  <Alert
+                    message="超出浏览器规则数量上限，该规则组已停用"
+                    description="排在后面的规则组会优先停用，可上移该规则组或减少其他规则组的规则"
+                    type="warning"
+                    showIcon
+                    className="error-alert"
+                  />
+                )}
+                {selectedGroupRuleErrors.length > 0 && (
+                  <Alert
+                    message={`${selectedGroupRuleErrors.length} 条规则未生效`}
+                    description={selectedGroupRuleErrors.map((error, index) => (
+                      <div key={index} className="error-text">
+                        {error.ruleName ? `${error.ruleName}: ` : ''}
+                        {error.error}
+                      </div>
+                    ))}
+                    type="warning"
+                    showIcon
+                    className="error-alert"
+                  />
+                )}
+                {selectedGroupLearnedCors.length > 0 && (
+                  <Alert
+                    message={`回显来源的 CORS 规则需要先记录请求来源：${selectedGroupLearnedCors.join(', ')}`}
+                    description="来自新来源的第一个请求（含预检请求）不带 CORS 响应头，重试或刷新一次即可；在 origins 中列出来源可预先生成规则"
+                    type="info"
+                    showIcon
+                    className="error-alert"
+                  />
+                )}
                 <CodeMirrorEditor
                   value={editorValue}
                   onChange={handleEditorChange}
@@ -1,13 +1,30 @@
-import { GroupRuleVo } from '../../../types';
 import {
+  GroupRuleVo,
+  ProfileState,
+  ProfileVo,
+  RuleHitInfo,
+  RuleStatus,
+  SystemSettings,
+} from '../../../types';
+import {
+  ActivateProfileRequest,
   ApiRequest,
   ApiRequestType,
   ApiResponse,
   CreateGroupRequest,
+  CreateProfileRequest,
   DeleteGroupRequest,
+  DeleteProfileRequest,
+  EnableGroupUntilRequest,
+  GetMatchedRulesRequest,
+  LoadTabGroupsRequest,
+  ReorderGroupsRequest,
   SaveGlobalEnabledRequest,
+  SaveSettingsRequest,
   ToggleGroupRequest,
+  ToggleTabGroupRequest,
   UpdateGroupRequest,
+  UpdateProfileRequest,
 } from '../../background/types/api';
 
 /**
@@ -190,6 +207,143 @@ export function toggleGroupRequest(
   });
 }
 
+/**
+ * 启用规则组，到指定时间自动停用
+ */
+export function enableGroupUntilRequest(
+  groupId: string,
+  expiresAt: string
+): Promise<RequestResult<void>> {
+  const requestData: EnableGroupUntilRequest = { groupId, expiresAt };
+
+  return request<void>({
+    type: ApiRequestType.ENABLE_GROUP_UNTIL,
+    data: requestData,
+  });
+}
+
+/**
+ * 调整规则组顺序
+ */
+export function reorderGroupsRequest(
+  groupIds: string[]
+): Promise<RequestResult<void>> {
+  const requestData: ReorderGroupsRequest = { groupIds };
+
+  return request<void>({
+    type: ApiRequestType.REORDER_GROUPS,
+    data: requestData,
+  });
+}
+
+/**
+ * 查询在指定标签页单独启用的规则组ID
+ */
+export function loadTabGroupsRequest(
+  tabId: number
+): Promise<RequestResult<string[]>> {
+  const requestData: LoadTabGroupsRequest = { tabId };
+
+  return request<string[]>({
+    type: ApiRequestType.LOAD_TAB_GROUPS,
+    data: requestData,
+  });
+}
+
+/**
+ * 设置规则组是否仅在指定标签页生效，返回该标签页单独启用的规则组ID
+ */
+export function toggleTabGroupRequest(
+  groupId: string,
+  tabId: number,
+  enabled: boolean
+): Promise<RequestResult<string[]>> {
+  const requestData: ToggleTabGroupRequest = { groupId, tabId, enabled };
+
+  return request<string[]>({
+    type: ApiRequestType.TOGGLE_TAB_GROUP,
+    data: requestData,
+  });
+}
+
+/**
+ * 查询因当前页面地址匹配而自动启用的规则组ID
+ */
+export function loadAutoGroupsRequest(): Promise<RequestResult<string[]>> {
+  return request<string[]>({
+    type: ApiRequestType.LOAD_AUTO_GROUPS,
+  });
+}
+
+// ==================== 方案 API ====================
+
+/**
+ * 加载方案列表及当前激活的方案
+ */
+export function loadProfilesRequest(): Promise<RequestResult<ProfileState>> {
+  return request<ProfileState>({
+    type: ApiRequestType.LOAD_PROFILES,
+  });
+}
+
+/**
+ * 创建方案，未指定规则组时保存当前启用的规则组
+ */
+export function createProfileRequest(
+  name: string,
+  groupIds?: string[]
+): Promise<RequestResult<ProfileVo>> {
+  const requestData: CreateProfileRequest = { name, groupIds };
+
+  return request<ProfileVo>({
+    type: ApiRequestType.CREATE_PROFILE,
+    data: requestData,
+  });
+}
+
+/**
+ * 更新方案
+ */
+export function updateProfileRequest(
+  profileId: string,
+  updates: UpdateProfileRequest['updates']
+): Promise<RequestResult<ProfileVo>> {
+  const requestData: UpdateProfileRequest = { profileId, updates };
+
+  return request<ProfileVo>({
+    type: ApiRequestType.UPDATE_PROFILE,
+    data: requestData,
+  });
+}
+
+/**
+ * 删除方案
+ */
+export function deleteProfileRequest(
+  profileId: string
+): Promise<RequestResult<void>> {
+  const requestData: DeleteProfileRequest = { profileId };
+
+  return request<void>({
+    type: ApiRequestType.DELETE_PROFILE,
+    data: requestData,
+  });
+}
+
+/**
+ * 激活方案，返回切换后的规则组
+ */
+export function activateProfileRequest(
+  profileId: string
+): Promise<RequestResult<GroupRuleVo[]>> {
+  const requestData: ActivateProfileRequest = { profileId };
+
+  return request<GroupRuleVo[]>({
+    type: ApiRequestType.ACTIVATE_PROFILE,
+    data: requestData,
+  });
+}
+
 /**
  * 清除所有数据
  */
@@ -224,6 +378,52 @@ export function saveGlobalEnabledRequest(
   });
 }
 
+/**
+ * 加载系统设置
+ */
+export function loadSettingsRequest(): Promise<RequestResult<SystemSettings>> {
+  return request<SystemSettings>({
+    type: ApiRequestType.LOAD_SETTINGS,
+  });
+}
+
+/**
+ * 保存系统设置
+ */
+export function saveSettingsRequest(
+  settings: Partial<SystemSettings>
+): Promise<RequestResult<SystemSettings>> {
+  const requestData: SaveSettingsRequest = { settings };
+
+  return request<SystemSettings>({
+    type: ApiRequestType.SAVE_SETTINGS,
+    data: requestData,
+  });
+}
+
+/**
+ * 获取规则生效状态
+ */
+export function getRuleStatusRequest(): Promise<RequestResult<RuleStatus>> {
+  return request<RuleStatus>({
+    type: ApiRequestType.GET_RULE_STATUS,
+  });
+}
+
+/**
+ * 查询最近命中的规则（浏览器保留最近五分钟的记录）
+ */
+export function getMatchedRulesRequest(
+  tabId?: number
+): Promise<RequestResult<RuleHitInfo[]>> {
+  const requestData: GetMatchedRulesRequest = { tabId };
+
+  return request<RuleHitInfo[]>({
+    type: ApiRequestType.GET_MATCHED_RULES,
+    data: requestData,
+  });
+}
+
 /**
  * 更新徽章
  */
@@ -244,6 +444,17 @@ export function initializeDefaultDataRequest(): Promise<RequestResult<void>> {
 
 // ==================== 工具函数 ====================
 
+/**
+ * 获取当前窗口的活动标签页ID，无法获取时返回 undefined
+ */
+export async function getCurrentTabId(): Promise<number | undefined> {
+  if (typeof browser === 'undefined' || !browser.tabs) {
+    return undefined;
+  }
+  const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+  return tab?.id;
+}
+
 /**
  * 批量发送请求 - 并行执行
  */
@@ -0,0 +1,770 @@
+import {
+  DEFAULT_BASE_URL,
+  ProxyRule,
+  RedirectTransform,
+  RuleType,
+  TRANSFORM_SCHEMES,
+} from './json';
+
+/**
+ * 规则编译选项，规则自身配置的同名字段优先
+ */
+export interface CompileOptions {
+  /** URL 匹配是否区分大小写，默认不区分（与 declarativeNetRequest 默认一致） */
+  caseSensitive?: boolean;
+  /** 是否要求匹配整个 URL，默认只需包含匹配片段；glob 始终匹配整个 URL */
+  anchored?: boolean;
+}
+
+/**
+ * 编译所需的规则字段
+ */
+export type CompilableRule = Pick<
+  ProxyRule,
+  | 'source'
+  | 'target'
+  | 'type'
+  | 'action'
+  | 'caseSensitive'
+  | 'anchored'
+  | 'transform'
+  | 'preserveQuery'
+>;
+
+/**
+ * 编译后的规则 - declarativeNetRequest 规则与 JS 端匹配共用同一份解释
+ */
+export interface CompiledRule {
+  /** 实际采用的源地址语法 */
+  type: RuleType;
+  /** declarativeNetRequest 条件中与 URL 相关的字段 */
+  condition: Pick<
+    chrome.declarativeNetRequest.RuleCondition,
+    'urlFilter' | 'regexFilter' | 'isUrlFilterCaseSensitive'
+  >;
+  /** 重定向动作，拦截规则没有 */
+  redirect?: chrome.declarativeNetRequest.Redirect;
+  /**
+   * 排除条件的 regexFilter，需生成优先级紧挨在规则之上的 allow 规则。
+   * allow 规则同样会阻止更低优先级的规则处理这些请求
+   */
+  exclusions: string[];
+  /** 判断 URL 是否命中规则 */
+  matches: (url: string) => boolean;
+  /** 判断 URL 是否命中排除条件 */
+  isExcluded: (url: string) => boolean;
+  /** 计算重定向后的地址，未命中时返回原地址 */
+  getTargetUrl: (url: string) => string;
+}
+
+/**
+ * RE2（declarativeNetRequest 的正则引擎）不支持且无法转换的语法
+ */
+const UNSUPPORTED_REGEX_SYNTAX: Array<[RegExp, string]> = [
+  [/\(\?<?[=!]/, 'lookaround assertions'],
+  [/\\[1-9]|\\k</, 'backreferences'],
+  [/\\Z/, '\\Z anchor'],
+];
+
+/**
+ * 可以匹配任意剩余内容的片段，断言前后只允许出现这些片段才能精确转换
+ */
+const ANY_TAILS = ['(.*)', '.*'];
+
+/**
+ * 断言转换结果：base 为去掉断言后的正则，exclusions 为需要排除的 URL 集合
+ */
+interface LookaroundTranslation {
+  base: string;
+  exclusions: string[];
+}
+
+/**
+ * urlFilter 中有特殊含义的字符，包含时改用 regexFilter 精确匹配
+ */
+const URL_FILTER_SPECIAL_CHARS = /[*^|]/;
+
+export const escapeRegex = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 将 glob 转为匹配整个 URL 的正则：`**` 匹配任意字符，`*` 不跨越 `/`，`?` 匹配单个字符。
+ * `*` 与 `**` 会生成捕获组，目标地址可用 $1、$2 引用
+ */
+export const globToRegex = (glob: string): string => {
+  let regex = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      regex += '(.*)';
+      i++;
+    } else if (char === '*') {
+      regex += '([^/]*)';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else {
+      regex += escapeRegex(char);
+    }
+  }
+  return `^${regex}$`;
+};
+
+/**
+ * 按 declarativeNetRequest 的 urlFilter 语义生成匹配整个 URL 的正则：
+ * `*` 匹配任意字符，`^` 匹配分隔符或 URL 结尾，开头的 `||` 匹配域名及其子域名，
+ * 开头或结尾的 `|` 锚定 URL 的开头或结尾
+ */
+export const urlFilterToRegExp = (
+  urlFilter: string,
+  caseSensitive = false
+): RegExp => {
+  let filter = urlFilter;
+  let prefix = '';
+  if (filter.startsWith('||')) {
+    prefix = '^[a-z][a-z\\d+.-]*://(?:[^/?#]*\\.)?';
+    filter = filter.slice(2);
+  } else if (filter.startsWith('|')) {
+    prefix = '^';
+    filter = filter.slice(1);
+  }
+  let suffix = '';
+  if (filter.endsWith('|')) {
+    suffix = '$';
+    filter = filter.slice(0, -1);
+  }
+
+  const body = [...filter]
+    .map(char => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '^') {
+        return '(?:[^\\w\\-.%]|$)';
+      }
+      return escapeRegex(char);
+    })
+    .join('');
+  return new RegExp(prefix + body + suffix, caseSensitive ? '' : 'i');
+};
+
+/**
+ * 未指定 type 时的推断规则：包含捕获组的按正则处理，否则按字符串处理
+ */
+export const inferRuleType = (source: string): RuleType =>
+  source.includes('(') ? 'regex' : 'string';
+
+/**
+ * 补全目标地址：// 开头补协议，/ 开头视为本地开发服务器路径。
+ * 配置了 baseUrl 的规则组在解析时已拼接为绝对地址
+ */
+const resolveTarget = (target: string): string => {
+  if (target.startsWith('//')) {
+    return `http:${target}`;
+  }
+  if (target.startsWith('/')) {
+    return `${DEFAULT_BASE_URL}${target}`;
+  }
+  return target;
+};
+
+/**
+ * 目标是否为带协议的完整地址
+ */
+const isAbsoluteUrl = (target: string): boolean =>
+  /^[a-z][a-z\d+.-]*:\/\//i.test(target);
+
+/**
+ * 规则配置的地址改写转为 declarativeNetRequest 的 URLTransform
+ */
+const toUrlTransform = (
+  transform: RedirectTransform
+): chrome.declarativeNetRequest.URLTransform => {
+  const { scheme, host, port, path, addQueryParams, removeQueryParams } =
+    transform;
+  const addOrReplaceParams = Object.entries(addQueryParams ?? {}).map(
+    ([key, value]) => ({ key, value })
+  );
+  return {
+    ...(scheme !== undefined && { scheme }),
+    ...(host !== undefined && { host }),
+    ...(port !== undefined && { port }),
+    ...(path !== undefined && { path }),
+    ...((addOrReplaceParams.length > 0 || removeQueryParams?.length) && {
+      queryTransform: {
+        ...(addOrReplaceParams.length > 0 && { addOrReplaceParams }),
+        ...(removeQueryParams?.length && { removeParams: removeQueryParams }),
+      },
+    }),
+  };
+};
+
+/**
+ * 固定目标地址转为 URLTransform：除查询参数外全部替换为目标地址的内容，
+ * 目标地址自带的查询参数追加或覆盖到原请求的查询参数上
+ */
+const targetToUrlTransform = (
+  target: string
+): chrome.declarativeNetRequest.URLTransform => {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    throw new Error(`preserveQuery requires an absolute target: ${target}`);
+  }
+  const scheme = url.protocol.slice(0, -1);
+  if (!(TRANSFORM_SCHEMES as readonly string[]).includes(scheme)) {
+    throw new Error(`preserveQuery does not support scheme: ${scheme}`);
+  }
+
+  const addOrReplaceParams = [...url.searchParams].map(([key, value]) => ({
+    key,
+    value,
+  }));
+  return {
+    scheme,
+    host: url.hostname,
+    port: url.port,
+    path: url.pathname,
+    fragment: url.hash,
+    ...(addOrReplaceParams.length > 0 && {
+      queryTransform: { addOrReplaceParams },
+    }),
+  };
+};
+
+const decodeQueryKey = (part: string): string => {
+  const key = part.split('=')[0].replace(/\+/g, ' ');
+  try {
+    return decodeURIComponent(key);
+  } catch {
+    return key;
+  }
+};
+
+/**
+ * 按 URLTransform 改写地址。查询参数逐段处理，未改动的参数保持原有编码
+ */
+export const applyUrlTransform = (
+  url: string,
+  transform: chrome.declarativeNetRequest.URLTransform
+): string => {
+  const result = new URL(url);
+  const { scheme, host, port, path, fragment, queryTransform } = transform;
+  if (scheme !== undefined) result.protocol = `${scheme}:`;
+  if (host !== undefined) result.hostname = host;
+  if (port !== undefined) result.port = port;
+  if (path !== undefined) result.pathname = path;
+  if (fragment !== undefined) result.hash = fragment;
+
+  if (queryTransform) {
+    const removed = new Set(queryTransform.removeParams ?? []);
+    const additions = new Map(
+      (queryTransform.addOrReplaceParams ?? []).map(({ key, value }) => [
+        key,
+        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+      ])
+    );
+    const parts = result.search
+      .slice(1)
+      .split('&')
+      .filter(part => part && !removed.has(decodeQueryKey(part)))
+      .map(part => {
+        const key = decodeQueryKey(part);
+        const replacement = additions.get(key);
+        // 只替换同名参数的第一次出现
+        additions.delete(key);
+        return replacement ?? part;
+      });
+    result.search = [...parts, ...additions.values()].join('&');
+  }
+  return result.href;
+};
+
+/**
+ * 转义 regexSubstitution 中的反斜杠，使目标地址按字面量替换
+ */
+const escapeSubstitution = (target: string): string =>
+  target.replace(/\\/g, '\\\\');
+
+/**
+ * 目标地址解析结果：字符串为字面量，数字为捕获组序号（0 表示整个匹配）
+ */
+type SubstitutionToken = string | number;
+
+/**
+ * regexSubstitution 只能引用 \0-\9
+ */
+const MAX_SUBSTITUTION_GROUP = 9;
+
+/**
+ * 统计捕获组并去掉组名：命名组 `(?<name>...)`、`(?P<name>...)` 转为普通捕获组，
+ * 目标地址中的 $<name> 改为按序号引用，RE2 与 JS 的处理因此保持一致
+ */
+const parseCaptureGroups = (
+  pattern: string
+): { pattern: string; count: number; names: Map<string, number> } => {
+  const names = new Map<string, number>();
+  let result = '';
+  let count = 0;
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      result += pattern.slice(i, i + 2);
+      i++;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      const named = /^\(\?P?<([A-Za-z_$][\w$]*)>/.exec(pattern.slice(i));
+      if (named) {
+        if (names.has(named[1])) {
+          throw new Error(`Duplicate capture group name: ${named[1]}`);
+        }
+        names.set(named[1], ++count);
+        result += '(';
+        i += named[0].length - 1;
+        continue;
+      }
+      if (pattern[i + 1] !== '?') {
+        count++;
+      }
+    }
+    result += char;
+  }
+  return { pattern: result, count, names };
+};
+
+/**
+ * 解析 JS 替换语法（$1、$&、$$、$<name>），引用不存在的捕获组或超出 \9 时抛错
+ */
+const parseSubstitution = (
+  target: string,
+  groupCount: number,
+  names: Map<string, number>
+): SubstitutionToken[] => {
+  const tokens: SubstitutionToken[] = [];
+  const reference = (group: number, text: string) => {
+    if (group < 1 || group > groupCount) {
+      throw new Error(`Target references missing capture group ${text}`);
+    }
+    if (group > MAX_SUBSTITUTION_GROUP) {
+      throw new Error(
+        `Target references capture group beyond $${MAX_SUBSTITUTION_GROUP}: ${text}`
+      );
+    }
+    tokens.push(group);
+  };
+
+  let last = 0;
+  for (const match of target.matchAll(/\$(\$|&|<([^>]*)>|\d\d?)/g)) {
+    tokens.push(target.slice(last, match.index));
+    last = match.index + match[0].length;
+    const [text, token, name] = match;
+
+    if (token === '$') {
+      tokens.push('$');
+    } else if (token === '&') {
+      tokens.push(0);
+    } else if (name !== undefined) {
+      const group = names.get(name);
+      if (group === undefined) {
+        throw new Error(`Target references unknown capture group: ${text}`);
+      }
+      reference(group, text);
+    } else if (token.length === 2 && Number(token) <= groupCount) {
+      // 与 JS 一致：两位数序号存在时优先按两位数解析
+      reference(Number(token), text);
+    } else {
+      reference(Number(token[0]), `$${token[0]}`);
+      tokens.push(token.slice(1));
+    }
+  }
+  tokens.push(target.slice(last));
+  return tokens.filter(token => token !== '');
+};
+
+/**
+ * 生成 regexSubstitution：捕获组写作 \N，字面量中的反斜杠转义
+ */
+const toRegexSubstitution = (tokens: SubstitutionToken[]): string =>
+  tokens
+    .map(token =>
+      typeof token === 'number' ? `\\${token}` : escapeSubstitution(token)
+    )
+    .join('');
+
+/**
+ * 按解析后的替换内容拼出目标片段，未参与匹配的捕获组为空字符串
+ */
+const substitute = (tokens: SubstitutionToken[], match: string[]): string =>
+  tokens
+    .map(token => (typeof token === 'number' ? (match[token] ?? '') : token))
+    .join('');
+
+/**
+ * 解析由纯文本（允许转义的符号）和 `.` 组成的定长片段，`.` 记为 null。
+ * 包含其他正则语法时返回 undefined
+ */
+const parseFixedText = (pattern: string): Array<string | null> | undefined => {
+  const chars: Array<string | null> = [];
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      const next = pattern[i + 1];
+      if (next === undefined || /[a-z\d]/i.test(next)) {
+        return undefined;
+      }
+      chars.push(next);
+      i++;
+    } else if (char === '.') {
+      chars.push(null);
+    } else if ('*+?()[]{}^$|'.includes(char)) {
+      return undefined;
+    } else {
+      chars.push(char);
+    }
+  }
+  return chars;
+};
+
+/**
+ * 找到唯一的断言及其范围，跳过转义字符和字符类
+ */
+const findLookaround = (
+  pattern: string
+): { start: number; end: number; kind: string; body: string } | undefined => {
+  let found:
+    { start: number; end: number; kind: string; body: string } | undefined;
+  let depth = 0;
+  let inClass = false;
+  let start = -1;
+  let kind = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      const prefix = /^\(\?<?[=!]/.exec(pattern.slice(i));
+      if (prefix && start === -1) {
+        if (found) {
+          throw new Error(`Only one lookaround is supported: ${pattern}`);
+        }
+        start = i;
+        kind = prefix[0].slice(1);
+        depth = 0;
+      }
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (start !== -1 && depth === 0) {
+        found = {
+          start,
+          end: i + 1,
+          kind,
+          body: pattern.slice(start + 1 + kind.length, i),
+        };
+        start = -1;
+      }
+    }
+  }
+  return found;
+};
+
+/**
+ * 将断言转换为 RE2 可执行的正则与排除条件，只处理能精确表达的形式：
+ * - `^前缀(?!X)(.*)`：固定前缀后的先行断言
+ * - `前缀(.*)(?<!X)$`：URL 结尾的后行断言
+ * 前缀与 X 只能由纯文本和 `.` 组成，X 可用 | 组合。其他形式抛错，不会退化为更宽泛的匹配
+ */
+const translateLookaround = (
+  pattern: string,
+  caseSensitive: boolean
+): LookaroundTranslation => {
+  const lookaround = findLookaround(pattern);
+  if (!lookaround) {
+    return { base: pattern, exclusions: [] };
+  }
+
+  const fail = (reason: string): never => {
+    throw new Error(
+      `Cannot translate lookaround exactly (${reason}): ${pattern}`
+    );
+  };
+  const { kind, body } = lookaround;
+  const alternatives = body.split('|').map(parseFixedText);
+  if (alternatives.some(alternative => !alternative?.length)) {
+    fail('assertion must be plain text');
+  }
+  const negative = kind.endsWith('!');
+  const before = pattern.slice(0, lookaround.start);
+  const after = pattern.slice(lookaround.end);
+
+  if (!kind.startsWith('?<')) {
+    // 先行断言：前缀固定在 URL 开头，断言位置唯一
+    const prefix = before.startsWith('^')
+      ? parseFixedText(before.slice(1))
+      : undefined;
+    const tail = after.endsWith('$') ? after.slice(0, -1) : after;
+    if (prefix === undefined) {
+      fail('lookahead must follow a ^-anchored literal prefix');
+    }
+    if (after !== '' && !ANY_TAILS.includes(tail)) {
+      fail('lookahead must be followed by (.*) or .*');
+    }
+    if (negative) {
+      return { base: before + after, exclusions: [`${before}(?:${body}).*`] };
+    }
+    const rest = tail === '(.*)' ? `((?:${body}).*)` : `(?:${body})${tail}`;
+    return {
+      base: before + rest + (after.endsWith('$') ? '$' : ''),
+      exclusions: [],
+    };
+  }
+
+  // 后行断言：只支持 URL 结尾，断言位置唯一
+  const tail = ANY_TAILS.find(candidate => before.endsWith(candidate));
+  if (after !== '$' || !tail) {
+    fail('lookbehind must follow (.*) or .* at the end of the URL');
+  }
+  const head = before.slice(0, -tail!.length);
+  const prefix = parseFixedText(head.startsWith('^') ? head.slice(1) : head);
+  if (prefix === undefined) {
+    fail('lookbehind rule must start with a literal prefix');
+  }
+  // 前缀可能结束在结尾的断言文本之内时，排除条件无法精确表达
+  const isSameChar = (a: string | null, b: string | null) =>
+    a === null ||
+    b === null ||
+    (caseSensitive ? a === b : a.toLowerCase() === b.toLowerCase());
+  const overlaps = alternatives.some(alternative =>
+    alternative!.some((_, index) => {
+      const length = Math.min(index + 1, prefix!.length);
+      const end = alternative!.slice(index + 1 - length, index + 1);
+      return prefix!
+        .slice(prefix!.length - length)
+        .every((char, i) => isSameChar(char, end[i]));
+    })
+  );
+  if (prefix!.length > 0 && overlaps) {
+    fail('prefix overlaps the assertion');
+  }
+  if (negative) {
+    return { base: before + after, exclusions: [`${head}.*(?:${body})$`] };
+  }
+  const rest = tail === '(.*)' ? `(.*(?:${body}))` : `.*(?:${body})`;
+  return { base: head + rest + after, exclusions: [] };
+};
+
+const compileStringRule = (
+  source: string,
+  target: string | undefined,
+  caseSensitive: boolean,
+  anchored: boolean
+): CompiledRule => {
+  const normalize = (url: string) => (caseSensitive ? url : url.toLowerCase());
+  const literal = normalize(source);
+  const matches = anchored
+    ? (url: string) => normalize(url) === literal
+    : (url: string) => normalize(url).includes(literal);
+  const regexFilter = anchored
+    ? `^${escapeRegex(source)}$`
+    : escapeRegex(source);
+
+  // 目标是主机名等片段时只替换命中的片段，需要 regexSubstitution；
+  // 目标是完整地址或锚定（命中即整个 URL）时重定向整个 URL
+  if (target !== undefined && !anchored && !isAbsoluteUrl(target)) {
+    const regex = new RegExp(regexFilter, caseSensitive ? '' : 'i');
+    return {
+      type: 'string',
+      condition: { regexFilter, isUrlFilterCaseSensitive: caseSensitive },
+      redirect: { regexSubstitution: escapeSubstitution(target) },
+      exclusions: [],
+      matches,
+      isExcluded: () => false,
+      getTargetUrl: url => url.replace(regex, () => target),
+    };
+  }
+
+  const condition = URL_FILTER_SPECIAL_CHARS.test(source)
+    ? { regexFilter, isUrlFilterCaseSensitive: caseSensitive }
+    : {
+        urlFilter: anchored ? `|${source}|` : source,
+        isUrlFilterCaseSensitive: caseSensitive,
+      };
+
+  return {
+    type: 'string',
+    condition,
+    redirect: target === undefined ? undefined : { url: target },
+    exclusions: [],
+    matches,
+    isExcluded: () => false,
+    getTargetUrl: url => (target !== undefined && matches(url) ? target : url),
+  };
+};
+
+/**
+ * 校验正则能否同时在 RE2 与 JS 中执行，返回 JS 端使用的正则
+ */
+const toRegExp = (pattern: string, caseSensitive: boolean): RegExp => {
+  for (const [syntax, description] of UNSUPPORTED_REGEX_SYNTAX) {
+    if (syntax.test(pattern)) {
+      throw new Error(`Unsupported regex syntax (${description}): ${pattern}`);
+    }
+  }
+
+  try {
+    return new RegExp(pattern, caseSensitive ? '' : 'i');
+  } catch (error) {
+    throw new Error(
+      `Invalid regex: ${pattern} (${error instanceof Error ? error.message : String(error)})`
+    );
+  }
+};
+
+const compileRegexRule = (
+  type: RuleType,
+  pattern: string,
+  exclusions: string[],
+  target: string | undefined,
+  caseSensitive: boolean,
+  names: Map<string, number> = new Map()
+): CompiledRule => {
+  const regex = toRegExp(pattern, caseSensitive);
+  const tokens =
+    target === undefined
+      ? undefined
+      : parseSubstitution(target, parseCaptureGroups(pattern).count, names);
+  const exclusionRegexes = exclusions.map(exclusion =>
+    toRegExp(exclusion, caseSensitive)
+  );
+  const isExcluded = (url: string) =>
+    exclusionRegexes.some(exclusion => exclusion.test(url));
+
+  return {
+    type,
+    condition: {
+      regexFilter: pattern,
+      isUrlFilterCaseSensitive: caseSensitive,
+    },
+    redirect:
+      tokens === undefined
+        ? undefined
+        : { regexSubstitution: toRegexSubstitution(tokens) },
+    exclusions,
+    matches: url => regex.test(url) && !isExcluded(url),
+    isExcluded,
+    // regexSubstitution 只替换第一个匹配片段，与不带 g 标志的 replace 一致
+    getTargetUrl: url =>
+      tokens === undefined || isExcluded(url)
+        ? url
+        : url.replace(regex, (...match: string[]) => substitute(tokens, match)),
+  };
+};
+
+/**
+ * 规则需要以 transform 重定向时返回对应的 URLTransform，配置冲突时抛错
+ */
+const getUrlTransform = (
+  rule: CompilableRule,
+  type: RuleType,
+  target: string | undefined
+): chrome.declarativeNetRequest.URLTransform | undefined => {
+  if (rule.action === 'block') {
+    return undefined;
+  }
+
+  if (rule.transform) {
+    if (rule.target) {
+      throw new Error('Rule cannot have both target and transform');
+    }
+    return toUrlTransform(rule.transform);
+  }
+
+  if (!rule.preserveQuery || target === undefined) {
+    return undefined;
+  }
+  // 只有固定的目标地址才能保留查询参数，捕获组引用需要 regexSubstitution
+  if (type !== 'string' && /\$(\d|&|<)/.test(target)) {
+    throw new Error(
+      `preserveQuery cannot be used with capture group references: ${target}`
+    );
+  }
+  return targetToUrlTransform(target);
+};
+
+/**
+ * 编译规则。无法在 declarativeNetRequest 中准确表达的规则直接抛错，不会退化为更宽泛的匹配
+ */
+export const compileRule = (
+  rule: CompilableRule,
+  options: CompileOptions = {}
+): CompiledRule => {
+  const type = rule.type ?? inferRuleType(rule.source);
+  const caseSensitive = rule.caseSensitive ?? options.caseSensitive ?? false;
+  const anchored = rule.anchored ?? options.anchored ?? false;
+  const target =
+    rule.action === 'block' ? undefined : resolveTarget(rule.target);
+
+  if (!rule.source) {
+    throw new Error('Rule source is empty');
+  }
+  // 解析时未能展开的变量
+  const placeholder = /\$\{[A-Za-z_]\w*\}/.exec(
+    `${rule.source} ${rule.target}`
+  );
+  if (placeholder) {
+    throw new Error(`Undefined variable: ${placeholder[0]}`);
+  }
+
+  // 按组成部分改写地址时，源地址只负责匹配，重定向交给 transform
+  const urlTransform = getUrlTransform(rule, type, target);
+  if (urlTransform) {
+    const compiled = compileRule(
+      { ...rule, action: 'block', transform: undefined, preserveQuery: false },
+      options
+    );
+    return {
+      ...compiled,
+      redirect: { transform: urlTransform },
+      getTargetUrl: url =>
+        compiled.matches(url) ? applyUrlTransform(url, urlTransform) : url,
+    };
+  }
+
+  if (type === 'string') {
+    return compileStringRule(rule.source, target, caseSensitive, anchored);
+  }
+
+  if (type === 'glob') {
+    return compileRegexRule(
+      type,
+      globToRegex(rule.source),
+      [],
+      target,
+      caseSensitive
+    );
+  }
+
+  const { pattern, names } = parseCaptureGroups(rule.source);
+  const { base, exclusions } = translateLookaround(pattern, caseSensitive);
+  const anchor = (pattern: string) => (anchored ? `^(?:${pattern})$` : pattern);
+  return compileRegexRule(
+    type,
+    anchor(base),
+    exclusions.map(anchor),
+    target,
+    caseSensitive,
+    names
+  );
+};
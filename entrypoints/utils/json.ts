@@ -43,27 +43,567 @@ export const validateJsonFormat = (
   }
 };
 
-interface ProxyRule {
+/**
+ * declarativeNetRequest 支持的资源类型
+ */
+export const RESOURCE_TYPES = [
+  'main_frame',
+  'sub_frame',
+  'stylesheet',
+  'script',
+  'image',
+  'font',
+  'object',
+  'xmlhttprequest',
+  'ping',
+  'csp_report',
+  'media',
+  'websocket',
+  'webtransport',
+  'webbundle',
+  'other',
+] as const;
+
+export type ResourceType = (typeof RESOURCE_TYPES)[number];
+
+/**
+ * declarativeNetRequest 支持的请求方法
+ */
+export const REQUEST_METHODS = [
+  'connect',
+  'delete',
+  'get',
+  'head',
+  'options',
+  'patch',
+  'post',
+  'put',
+  'other',
+] as const;
+
+export type RequestMethod = (typeof REQUEST_METHODS)[number];
+
+/**
+ * 规则源地址的匹配语法
+ */
+export const RULE_TYPES = ['string', 'regex', 'glob'] as const;
+
+export type RuleType = (typeof RULE_TYPES)[number];
+
+/**
+ * 未配置 baseUrl 时，以 / 开头的相对目标地址指向的本地开发服务器
+ */
+export const DEFAULT_BASE_URL = 'http://localhost:3000';
+
+/**
+ * 规则文本中的变量占位符 ${NAME}
+ */
+export const VARIABLE_PATTERN = /\$\{([A-Za-z_]\w*)\}/g;
+
+/**
+ * 解析规则组时使用的全局上下文，规则组中的同名配置优先
+ */
+export interface RuleContext {
+  /** 全局变量 */
+  vars?: Record<string, string>;
+  /** 相对目标地址的基准地址 */
+  baseUrl?: string;
+}
+
+/**
+ * 重定向时可以修改的协议，与 declarativeNetRequest 的 transform 一致
+ */
+export const TRANSFORM_SCHEMES = [
+  'http',
+  'https',
+  'ftp',
+  'chrome-extension',
+] as const;
+
+/**
+ * 按 URL 组成部分修改请求地址，未设置的部分保持不变
+ */
+export interface RedirectTransform {
+  scheme?: (typeof TRANSFORM_SCHEMES)[number];
+  host?: string;
+  /** 端口，空字符串表示去掉端口 */
+  port?: string;
+  path?: string;
+  /** 添加或替换的查询参数 */
+  addQueryParams?: Record<string, string>;
+  /** 移除的查询参数 */
+  removeQueryParams?: string[];
+}
+
+/**
+ * 规则的附加匹配条件 - 代理规则与请求头规则共用
+ */
+export interface RuleConditionOptions {
+  /** 限定生效的资源类型，未设置时匹配所有类型 */
+  types?: ResourceType[];
+  /** 限定生效的请求方法 */
+  methods?: RequestMethod[];
+  /** 仅当发起请求的页面属于这些域名（含子域名）时生效 */
+  initiatorDomains?: string[];
+  /** 发起请求的页面属于这些域名（含子域名）时不生效 */
+  excludedInitiatorDomains?: string[];
+  /** 请求地址属于这些域名（含子域名）时不生效 */
+  excludedRequestDomains?: string[];
+}
+
+export interface ProxyRule extends RuleConditionOptions {
   id: string;
   name: string;
   enabled: boolean;
   source: string;
   target: string;
-  type: 'string' | 'regex';
+  /** 源地址语法，未指定时根据源地址中的特殊字符推断 */
+  type?: RuleType;
+  /** 规则动作，默认 redirect；block 时忽略 target */
+  action?: 'redirect' | 'block';
+  /** 优先级，数值越大越先生效，默认 0；相同时按分组顺序和组内顺序 */
+  priority?: number;
+  /** URL 匹配是否区分大小写，默认不区分 */
+  caseSensitive?: boolean;
+  /** 是否要求源地址匹配整个 URL，默认包含即可；glob 始终匹配整个 URL */
+  anchored?: boolean;
+  /** 按 URL 组成部分改写请求地址，设置后不能再指定 target */
+  transform?: RedirectTransform;
+  /** 重定向到固定地址时保留原请求的查询参数 */
+  preserveQuery?: boolean;
+}
+
+/**
+ * CORS 策略，对应注入的 Access-Control-* 响应头
+ */
+export interface CorsPolicy {
+  /** 允许的来源：'*'、具体来源，或 'reflect' 回显请求来源 */
+  origin: string;
+  /** 回显的来源列表，列出后只回显这些来源，规则在应用时预先生成 */
+  origins?: string[];
+  /** 是否允许携带凭据 */
+  credentials: boolean;
+  methods: string;
+  headers: string;
+  exposeHeaders?: string;
+  maxAge?: number;
+  /** 注入响应头的资源类型 */
+  resourceTypes: ResourceType[];
+}
+
+export interface CorsRule extends Partial<CorsPolicy> {
+  id: string;
+  pattern: string;
+  enabled: boolean;
+}
+
+/**
+ * 请求头操作类型
+ */
+export const HEADER_OPERATIONS = ['set', 'append', 'remove'] as const;
+
+export type HeaderOperation = (typeof HEADER_OPERATIONS)[number];
+
+/**
+ * 单个请求头/响应头修改
+ */
+export interface HeaderModification {
+  header: string;
+  operation: HeaderOperation;
+  /** set/append 时必填 */
+  value?: string;
 }
 
-interface CorsRule {
+/**
+ * 请求头修改规则
+ */
+export interface HeaderRule extends RuleConditionOptions {
   id: string;
   pattern: string;
   enabled: boolean;
+  requestHeaders: HeaderModification[];
+  responseHeaders: HeaderModification[];
 }
 
 /**
- * 解析规则组配置 - 支持xswitch的数组格式和标准对象格式
+ * 解析后的规则组配置
+ */
+export interface ParsedRuleGroup {
+  proxy?: ProxyRule[];
+  cors?: CorsRule[];
+  /** 覆盖默认 CORS 策略，对本组所有 cors 规则生效 */
+  corsConfig?: Partial<CorsPolicy>;
+  /** 覆盖全局的禁用缓存设置 */
+  disableCache?: boolean;
+  headers?: HeaderRule[];
+  block?: ProxyRule[];
+  /** 合并全局变量后本组生效的变量 */
+  vars?: Record<string, string>;
+  /** 本组相对目标地址的基准地址 */
+  baseUrl?: string;
+}
+
+/**
+ * 规则附加选项 - 对象格式规则与数组格式第三项共用
+ */
+interface RuleOptions {
+  types?: unknown;
+  methods?: unknown;
+  initiatorDomains?: unknown;
+  excludedInitiatorDomains?: unknown;
+  excludedRequestDomains?: unknown;
+  priority?: unknown;
+  type?: unknown;
+  caseSensitive?: unknown;
+  anchored?: unknown;
+  transform?: unknown;
+  preserveQuery?: unknown;
+}
+
+/**
+ * 解析字符串列表，统一转为小写并去重，空列表返回 undefined
+ */
+const parseStringList = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const items = value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim().toLowerCase())
+    .filter(Boolean);
+
+  return items.length > 0 ? Array.from(new Set(items)) : undefined;
+};
+
+/**
+ * 解析资源类型列表，忽略无法识别的类型
+ */
+const parseResourceTypes = (value: unknown): ResourceType[] | undefined => {
+  const types = parseStringList(value)?.filter((type): type is ResourceType =>
+    (RESOURCE_TYPES as readonly string[]).includes(type)
+  );
+  return types && types.length > 0 ? types : undefined;
+};
+
+/**
+ * 解析请求方法列表，忽略无法识别的方法
+ */
+const parseRequestMethods = (value: unknown): RequestMethod[] | undefined => {
+  const methods = parseStringList(value)?.filter(
+    (method): method is RequestMethod =>
+      (REQUEST_METHODS as readonly string[]).includes(method)
+  );
+  return methods && methods.length > 0 ? methods : undefined;
+};
+
+/**
+ * 解析规则附加选项
+ */
+const parseRuleOptions = (options: unknown): RuleConditionOptions => {
+  if (!options || typeof options !== 'object') {
+    return {};
+  }
+
+  const ruleOptions = options as RuleOptions;
+  const parsed: RuleConditionOptions = {
+    types: parseResourceTypes(ruleOptions.types),
+    methods: parseRequestMethods(ruleOptions.methods),
+    initiatorDomains: parseStringList(ruleOptions.initiatorDomains),
+    excludedInitiatorDomains: parseStringList(
+      ruleOptions.excludedInitiatorDomains
+    ),
+    excludedRequestDomains: parseStringList(ruleOptions.excludedRequestDomains),
+  };
+
+  // 只保留已配置的选项，避免规则对象中出现大量 undefined 字段
+  return Object.fromEntries(
+    Object.entries(parsed).filter(([, value]) => value !== undefined)
+  ) as RuleConditionOptions;
+};
+
+/**
+ * 解析规则语法类型，无法识别时返回空对象以便按源地址推断
+ */
+const parseRuleType = (options: unknown): { type?: RuleType } => {
+  if (!options || typeof options !== 'object') {
+    return {};
+  }
+
+  const { type } = options as RuleOptions;
+  return typeof type === 'string' &&
+    (RULE_TYPES as readonly string[]).includes(type.toLowerCase())
+    ? { type: type.toLowerCase() as RuleType }
+    : {};
+};
+
+/**
+ * 解析规则优先级，仅接受有限数值
+ */
+const parseRulePriority = (options: unknown): { priority?: number } => {
+  if (!options || typeof options !== 'object') {
+    return {};
+  }
+
+  const { priority } = options as RuleOptions;
+  return typeof priority === 'number' && Number.isFinite(priority)
+    ? { priority }
+    : {};
+};
+
+/**
+ * 解析 URL 匹配选项，仅接受布尔值
+ */
+const parseMatchOptions = (
+  options: unknown
+): { caseSensitive?: boolean; anchored?: boolean } => {
+  if (!options || typeof options !== 'object') {
+    return {};
+  }
+
+  const { caseSensitive, anchored } = options as RuleOptions;
+  return {
+    ...(typeof caseSensitive === 'boolean' && { caseSensitive }),
+    ...(typeof anchored === 'boolean' && { anchored }),
+  };
+};
+
+/**
+ * 解析地址改写配置，忽略无法识别的字段；没有有效字段时返回 undefined
+ */
+const parseRedirectTransform = (
+  value: unknown
+): RedirectTransform | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const { scheme, host, port, path, addQueryParams, removeQueryParams } =
+    value as Record<string, unknown>;
+  const normalizedScheme =
+    typeof scheme === 'string' ? scheme.toLowerCase() : undefined;
+  const portText = typeof port === 'number' ? String(port) : port;
+  const transform: RedirectTransform = {
+    ...(normalizedScheme &&
+      (TRANSFORM_SCHEMES as readonly string[]).includes(normalizedScheme) && {
+        scheme: normalizedScheme as RedirectTransform['scheme'],
+      }),
+    ...(typeof host === 'string' && host && { host }),
+    ...(typeof portText === 'string' &&
+      /^\d{0,5}$/.test(portText) &&
+      Number(portText) <= 65535 && { port: portText }),
+    ...(typeof path === 'string' && { path }),
+  };
+
+  if (addQueryParams && typeof addQueryParams === 'object') {
+    const params = Object.entries(addQueryParams).filter(
+      (entry): entry is [string, string | number | boolean] =>
+        ['string', 'number', 'boolean'].includes(typeof entry[1])
+    );
+    if (params.length > 0) {
+      transform.addQueryParams = Object.fromEntries(
+        params.map(([key, param]) => [key, String(param)])
+      );
+    }
+  }
+  if (Array.isArray(removeQueryParams)) {
+    const params = removeQueryParams.filter(
+      (param): param is string => typeof param === 'string' && !!param
+    );
+    if (params.length > 0) {
+      transform.removeQueryParams = params;
+    }
+  }
+
+  return Object.keys(transform).length > 0 ? transform : undefined;
+};
+
+/**
+ * 解析重定向选项：地址改写与保留查询参数
+ */
+const parseRedirectOptions = (
+  options: unknown
+): { transform?: RedirectTransform; preserveQuery?: boolean } => {
+  if (!options || typeof options !== 'object') {
+    return {};
+  }
+
+  const { transform, preserveQuery } = options as RuleOptions;
+  const parsedTransform = parseRedirectTransform(transform);
+  return {
+    ...(parsedTransform && { transform: parsedTransform }),
+    ...(typeof preserveQuery === 'boolean' && { preserveQuery }),
+  };
+};
+
+/**
+ * 解析以逗号分隔的头部/方法列表，支持字符串或数组
+ */
+const parseHeaderList = (value: unknown): string | undefined => {
+  const items = Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  const list = items.map(item => item.trim()).filter(Boolean);
+  return list.length > 0 ? list.join(', ') : undefined;
+};
+
+/**
+ * 解析来源列表，支持字符串或数组，统一为协议、主机名与端口组成的来源，忽略无法解析的项
+ */
+const parseOriginList = (value: unknown): string[] | undefined => {
+  const origins = (parseHeaderList(value)?.split(', ') ?? []).flatMap(item => {
+    try {
+      const { origin } = new URL(item);
+      return origin === 'null' ? [] : [origin];
+    } catch {
+      return [];
+    }
+  });
+  return origins.length > 0 ? [...new Set(origins)] : undefined;
+};
+
+/**
+ * 解析 CORS 策略字段，未配置的字段不会出现在结果中
+ */
+const parseCorsPolicy = (value: unknown): Partial<CorsPolicy> => {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+
+  const policy = value as Record<string, unknown>;
+  const parsed: Partial<CorsPolicy> = {
+    origin:
+      typeof policy.origin === 'string' && policy.origin.trim()
+        ? policy.origin.trim()
+        : undefined,
+    origins: parseOriginList(policy.origins),
+    credentials:
+      typeof policy.credentials === 'boolean'
+        ? policy.credentials
+        : policy.credentials === 'true'
+          ? true
+          : policy.credentials === 'false'
+            ? false
+            : undefined,
+    methods: parseHeaderList(policy.methods)?.toUpperCase(),
+    headers: parseHeaderList(policy.headers),
+    exposeHeaders: parseHeaderList(policy.exposeHeaders),
+    maxAge:
+      typeof policy.maxAge === 'number' && policy.maxAge >= 0
+        ? Math.floor(policy.maxAge)
+        : undefined,
+    resourceTypes: parseResourceTypes(policy.resourceTypes),
+  };
+
+  return Object.fromEntries(
+    Object.entries(parsed).filter(([, item]) => item !== undefined)
+  ) as Partial<CorsPolicy>;
+};
+
+/**
+ * 判断对象格式规则是否声明为拦截动作
+ */
+const isBlockAction = (rule: object): boolean =>
+  'action' in rule &&
+  typeof rule.action === 'string' &&
+  rule.action.toLowerCase() === 'block';
+
+/**
+ * 解析请求头修改列表，忽略不完整或无法识别的操作
+ */
+const parseHeaderModifications = (value: unknown): HeaderModification[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((item: unknown): HeaderModification[] => {
+    if (!item || typeof item !== 'object') {
+      return [];
+    }
+
+    const { header, operation, value } = item as {
+      header?: unknown;
+      operation?: unknown;
+      value?: unknown;
+    };
+    if (typeof header !== 'string' || !header.trim()) {
+      return [];
+    }
+
+    // 未指定操作时，有值视为 set，无值视为 remove
+    const op =
+      typeof operation === 'string'
+        ? operation.trim().toLowerCase()
+        : value === undefined
+          ? 'remove'
+          : 'set';
+    if (!(HEADER_OPERATIONS as readonly string[]).includes(op)) {
+      return [];
+    }
+
+    if (op === 'remove') {
+      return [{ header: header.trim(), operation: 'remove' }];
+    }
+    if (value === undefined || value === null) {
+      return [];
+    }
+    return [
+      {
+        header: header.trim(),
+        operation: op as HeaderOperation,
+        value: String(value),
+      },
+    ];
+  });
+};
+
+/**
+ * 解析变量表，变量名需为合法标识符，数字与布尔值转为字符串
+ */
+export const parseVariables = (value: unknown): Record<string, string> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).flatMap(([name, variable]) =>
+      /^[A-Za-z_]\w*$/.test(name) &&
+      ['string', 'number', 'boolean'].includes(typeof variable)
+        ? [[name, String(variable)]]
+        : []
+    )
+  );
+};
+
+/**
+ * 替换 ${NAME} 占位符，未定义的变量原样保留，由编译阶段报错
+ */
+export const expandVariables = (
+  text: string,
+  vars: Record<string, string>
+): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(vars, name) ? vars[name] : placeholder
+  );
+
+/**
+ * 以 / 开头（不含 //）的相对目标地址拼接到基准地址之后
+ */
+const resolveRelativeTarget = (target: string, baseUrl: string): string =>
+  target.startsWith('/') && !target.startsWith('//')
+    ? baseUrl.replace(/\/+$/, '') + target
+    : target;
+
+/**
+ * 解析规则组配置 - 支持xswitch的数组格式和标准对象格式。
+ * 代理与拦截规则的 source、target 中的 ${NAME} 在此展开，规则组的 vars 覆盖全局变量
  */
 export const parseRuleGroup = (
-  ruleText: string
-): { proxy?: ProxyRule[]; cors?: CorsRule[] } => {
+  ruleText: string,
+  context: RuleContext = {}
+): ParsedRuleGroup => {
   if (!ruleText.trim()) {
     return {};
   }
@@ -71,20 +611,54 @@ export const parseRuleGroup = (
   try {
     const config = parseJsonWithComments(ruleText);
 
+    // 规则组变量的值可以引用全局变量
+    const globalVars = context.vars ?? {};
+    const vars = {
+      ...globalVars,
+      ...Object.fromEntries(
+        Object.entries(parseVariables(config.vars)).map(([name, value]) => [
+          name,
+          expandVariables(value, globalVars),
+        ])
+      ),
+    };
+    const baseUrl =
+      typeof config.baseUrl === 'string' && config.baseUrl
+        ? expandVariables(config.baseUrl, vars)
+        : context.baseUrl;
+    const expandRule = (rule: ProxyRule): ProxyRule => {
+      // 数组格式中可能写入非字符串的地址，保持原样交给后续校验
+      if (typeof rule.source !== 'string' || typeof rule.target !== 'string') {
+        return rule;
+      }
+      const target = expandVariables(rule.target, vars);
+      return {
+        ...rule,
+        source: expandVariables(rule.source, vars),
+        target: baseUrl ? resolveRelativeTarget(target, baseUrl) : target,
+      };
+    };
+
     // 处理proxy规则
     let proxyRules: ProxyRule[] = [];
     if (config.proxy && Array.isArray(config.proxy)) {
       proxyRules = config.proxy.map(
         (rule: unknown, index: number): ProxyRule => {
-          // 兼容xswitch的数组格式 [source, target]
+          // 兼容xswitch的数组格式 [source, target, options?]，target 为 null 表示拦截
           if (Array.isArray(rule) && rule.length >= 2) {
+            const isBlock = rule[1] === null;
             return {
               id: `proxy_${index}`,
               name: `Rule ${index + 1}`,
               enabled: true,
               source: rule[0],
-              target: rule[1],
-              type: 'string' as const,
+              target: isBlock ? '' : rule[1],
+              action: isBlock ? 'block' : 'redirect',
+              ...parseRuleType(rule[2]),
+              ...parseRuleOptions(rule[2]),
+              ...parseRulePriority(rule[2]),
+              ...parseMatchOptions(rule[2]),
+              ...(!isBlock && parseRedirectOptions(rule[2])),
             };
           }
           // 标准对象格式
@@ -92,23 +666,29 @@ export const parseRuleGroup = (
             typeof rule === 'object' &&
             rule &&
             'source' in rule &&
-            'target' in rule
+            ('target' in rule || 'transform' in rule || isBlockAction(rule))
           ) {
             const ruleObj = rule as {
               id?: string;
               name?: string;
               enabled?: boolean;
               source: string;
-              target: string;
-              type?: 'string' | 'regex';
+              target?: string | null;
+              action?: string;
             };
+            const isBlock = ruleObj.target === null || isBlockAction(ruleObj);
             return {
               id: ruleObj.id || `proxy_${index}`,
               name: ruleObj.name || `Rule ${index + 1}`,
               enabled: ruleObj.enabled !== false,
               source: ruleObj.source,
-              target: ruleObj.target,
-              type: ruleObj.type || 'string',
+              target: isBlock ? '' : (ruleObj.target ?? ''),
+              action: isBlock ? 'block' : 'redirect',
+              ...parseRuleType(ruleObj),
+              ...parseRuleOptions(ruleObj),
+              ...parseRulePriority(ruleObj),
+              ...parseMatchOptions(ruleObj),
+              ...(!isBlock && parseRedirectOptions(ruleObj)),
             };
           }
           // 兼容其他格式，返回默认规则
@@ -124,6 +704,60 @@ export const parseRuleGroup = (
       );
     }
 
+    // 处理block规则，支持字符串和对象格式
+    let blockRules: ProxyRule[] = [];
+    if (config.block && Array.isArray(config.block)) {
+      blockRules = config.block.map(
+        (rule: unknown, index: number): ProxyRule => {
+          if (typeof rule === 'string') {
+            return {
+              id: `block_${index}`,
+              name: `Block ${index + 1}`,
+              enabled: true,
+              source: rule,
+              target: '',
+              action: 'block',
+            };
+          }
+          if (
+            typeof rule === 'object' &&
+            rule &&
+            ('pattern' in rule || 'source' in rule)
+          ) {
+            const ruleObj = rule as {
+              id?: string;
+              name?: string;
+              enabled?: boolean;
+              pattern?: string;
+              source?: string;
+            };
+            return {
+              id: ruleObj.id || `block_${index}`,
+              name: ruleObj.name || `Block ${index + 1}`,
+              enabled: ruleObj.enabled !== false,
+              source: ruleObj.pattern ?? ruleObj.source ?? '',
+              target: '',
+              action: 'block',
+              ...parseRuleType(ruleObj),
+              ...parseRuleOptions(ruleObj),
+              ...parseRulePriority(ruleObj),
+              ...parseMatchOptions(ruleObj),
+            };
+          }
+          // 默认格式
+          return {
+            id: `block_${index}`,
+            name: `Block ${index + 1}`,
+            enabled: false,
+            source: '',
+            target: '',
+            type: 'string' as const,
+            action: 'block',
+          };
+        }
+      );
+    }
+
     // 处理cors规则
     let corsRules: CorsRule[] = [];
     if (config.cors && Array.isArray(config.cors)) {
@@ -147,6 +781,7 @@ export const parseRuleGroup = (
             id: ruleObj.id || `cors_${index}`,
             pattern: ruleObj.pattern,
             enabled: ruleObj.enabled !== false,
+            ...parseCorsPolicy(ruleObj),
           };
         }
         // 默认格式
@@ -158,9 +793,55 @@ export const parseRuleGroup = (
       });
     }
 
+    // 处理headers规则
+    let headerRules: HeaderRule[] = [];
+    if (config.headers && Array.isArray(config.headers)) {
+      headerRules = config.headers.map(
+        (rule: unknown, index: number): HeaderRule => {
+          if (typeof rule === 'object' && rule && 'pattern' in rule) {
+            const ruleObj = rule as {
+              id?: string;
+              pattern: string;
+              enabled?: boolean;
+              requestHeaders?: unknown;
+              responseHeaders?: unknown;
+            };
+            return {
+              id: ruleObj.id || `headers_${index}`,
+              pattern: ruleObj.pattern,
+              enabled: ruleObj.enabled !== false,
+              requestHeaders: parseHeaderModifications(ruleObj.requestHeaders),
+              responseHeaders: parseHeaderModifications(
+                ruleObj.responseHeaders
+              ),
+              ...parseRuleOptions(ruleObj),
+            };
+          }
+          // 默认格式
+          return {
+            id: `headers_${index}`,
+            pattern: '',
+            enabled: false,
+            requestHeaders: [],
+            responseHeaders: [],
+          };
+        }
+      );
+    }
+
+    const corsConfig = parseCorsPolicy(config.corsConfig);
+
     return {
-      proxy: proxyRules,
+      proxy: proxyRules.map(expandRule),
       cors: corsRules,
+      ...(Object.keys(corsConfig).length > 0 ? { corsConfig } : {}),
+      ...(typeof config.disableCache === 'boolean'
+        ? { disableCache: config.disableCache }
+        : {}),
+      headers: headerRules,
+      block: blockRules.map(expandRule),
+      ...(Object.keys(vars).length > 0 ? { vars } : {}),
+      ...(baseUrl ? { baseUrl } : {}),
     };
   } catch {
     return {};
@@ -189,6 +870,16 @@ export const countActiveRules = (ruleText: string): number => {
       count += parsedRules.cors.length;
     }
 
+    // 计算 block 规则数量
+    if (parsedRules.block && Array.isArray(parsedRules.block)) {
+      count += parsedRules.block.length;
+    }
+
+    // 计算 headers 规则数量
+    if (parsedRules.headers && Array.isArray(parsedRules.headers)) {
+      count += parsedRules.headers.length;
+    }
+
     return count;
   } catch {
     // JSON 解析失败，返回 0
@@ -1,98 +1,902 @@
-import { GroupRuleVo } from '../../types';
-import { parseRuleGroup, validateJsonFormat } from './json';
-
-interface ProxyRule {
-  id: string;
-  name: string;
-  enabled: boolean;
-  source: string;
-  target: string;
-  type: 'string' | 'regex';
-}
-
-interface CorsRule {
-  id: string;
-  pattern: string;
-  enabled: boolean;
-}
+import {
+  GroupRuleVo,
+  RuleErrorType,
+  RuleHitInfo,
+  RuleStatus,
+  SystemSettings,
+  TabGroups,
+} from '../../types';
+import {
+  CorsPolicy,
+  CorsRule,
+  HeaderModification,
+  HeaderRule,
+  ProxyRule,
+  REQUEST_METHODS,
+  RuleConditionOptions,
+  RuleContext,
+  parseRuleGroup,
+  parseVariables,
+  validateJsonFormat,
+} from './json';
+import { CompiledRule, compileRule, urlFilterToRegExp } from './compiler';
 
 const CORS_HEADERS = {
   ORIGIN: 'Access-Control-Allow-Origin',
   CREDENTIALS: 'Access-Control-Allow-Credentials',
   METHODS: 'Access-Control-Allow-Methods',
   HEADERS: 'Access-Control-Allow-Headers',
+  EXPOSE_HEADERS: 'Access-Control-Expose-Headers',
+  MAX_AGE: 'Access-Control-Max-Age',
 };
 
-const DEFAULT_CORS_CONFIG = {
+const DEFAULT_CORS_CONFIG: CorsPolicy = {
   origin: '*',
-  credentials: 'true',
+  credentials: false,
   methods: 'GET, POST, PUT, DELETE, PATCH, OPTIONS',
   headers: 'Origin, X-Requested-With, Content-Type, Accept, Authorization',
+  resourceTypes: ['xmlhttprequest'],
+};
+
+/**
+ * 禁用缓存时需要移除的条件请求头与缓存校验响应头
+ */
+const CACHE_REQUEST_HEADERS = ['If-None-Match', 'If-Modified-Since'];
+const CACHE_RESPONSE_HEADERS = ['ETag', 'Last-Modified'];
+
+/**
+ * 回显来源的 CORS 规则按来源动态生成会话规则，使用独立的 ID 区间
+ */
+const REFLECT_CORS_RULE_ID_BASE = 1_000_000_000;
+
+/**
+ * 停用代理的标签页使用最高优先级的 allow 规则，压过所有重定向、拦截与修改头部规则
+ */
+const DISABLED_TAB_RULE_PRIORITY = 1_000_000;
+
+/**
+ * 修改头部的规则（CORS、自定义请求头、禁用缓存）排在所有代理规则之上：
+ * 浏览器会忽略优先级不高于命中的 allow 规则的修改头部规则，排除条件只应跳过重定向
+ */
+const MODIFY_HEADERS_RULE_PRIORITY = DISABLED_TAB_RULE_PRIORITY - 1;
+
+/**
+ * 由规则组 ID 与规则内容计算稳定的动态规则 ID（FNV-1a），范围为 [1, REFLECT_CORS_RULE_ID_BASE)
+ */
+const hashRuleKey = (key: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return ((hash >>> 0) % (REFLECT_CORS_RULE_ID_BASE - 1)) + 1;
+};
+
+/**
+ * 与字段顺序无关的规则序列化，用于和浏览器中已有的规则比较
+ */
+const serializeRule = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(serializeRule).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        key =>
+          `${JSON.stringify(key)}:${serializeRule((value as Record<string, unknown>)[key])}`
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * 命中日志依赖的规则状态保存在 storage.session 中，Service Worker 挂起后再次唤醒时恢复
+ */
+const SESSION_STATE_KEY = 'xswitch_network_state';
+
+/**
+ * 动态规则 ID 对应的源规则，用于把浏览器上报的命中还原为用户配置的规则
+ */
+type RuleMappingEntry = Pick<
+  ProxyRule,
+  | 'id'
+  | 'source'
+  | 'target'
+  | 'name'
+  | 'type'
+  | 'caseSensitive'
+  | 'anchored'
+  | 'transform'
+  | 'preserveQuery'
+> & {
+  action?: 'redirect' | 'block' | 'allow';
+  groupId?: string;
+  /** 规则组仅在部分标签页启用，规则位于会话规则集中 */
+  tabScoped?: boolean;
+};
+
+/**
+ * 规则组中解析、编译好的代理与拦截规则，规则组未修改时复用
+ */
+interface GroupMatchers {
+  updateTime: string;
+  ruleText: string;
+  /** 解析时使用的全局变量与基准地址 */
+  context: RuleContext;
+  rules: Array<{ rule: ProxyRule; compiled: CompiledRule | undefined }>;
+}
+
+/**
+ * 按生效顺序排列的规则及其编译结果
+ */
+type OrderedProxyRule = {
+  rule: ProxyRule;
+  group: GroupRuleVo;
+  compiled: CompiledRule | undefined;
+};
+
+/**
+ * 回显来源的 CORS 规则，key 由规则组与规则内容生成，规则变化后已记录的来源随之失效
+ */
+interface ReflectCorsRule {
+  key: string;
+  groupId: string;
+  rule: CorsRule;
+  policy: CorsPolicy;
+  /** 为来源生成的会话规则使用的 urlFilter */
+  urlFilter: string;
+  /** 只记录这些来源，未设置时记录所有来源 */
+  origins?: string[];
+}
+
+/**
+ * 已记录的请求来源及为其生成的会话规则
+ */
+interface ReflectedOrigin {
+  corsKey: string;
+  /** 完整来源（协议、主机名与端口） */
+  origin: string;
+  ruleId: number;
+  /**
+   * 从该来源发出请求的标签页。会话规则只能按主机名匹配发起方，
+   * 同一主机名的不同来源（如不同端口）靠标签页区分
+   */
+  tabIds: number[];
+}
+
+interface NetworkSessionState {
+  globalEnabled: boolean;
+  groups: GroupRuleVo[];
+  ruleMapping: Array<[number, RuleMappingEntry]>;
+  reflectCorsRules: ReflectCorsRule[];
+  reflectedOrigins: Array<[string, ReflectedOrigin]>;
+  skippedProxyRules?: string[];
+  ruleContext?: RuleContext;
+  tabGroups?: TabGroups;
+  disabledTabIds?: number[];
+}
+
+/**
+ * 动态规则与正则规则的配额，旧版本浏览器没有对应常量时使用文档中的默认值
+ */
+const getRuleQuota = () => {
+  const dnr = chrome.declarativeNetRequest;
+  return {
+    maxRules:
+      dnr.MAX_NUMBER_OF_DYNAMIC_RULES ??
+      dnr.MAX_NUMBER_OF_DYNAMIC_AND_SESSION_RULES ??
+      5000,
+    /** 重定向、修改头部属于 unsafe 规则，单独计数 */
+    maxUnsafeRules: dnr.MAX_NUMBER_OF_UNSAFE_DYNAMIC_RULES ?? 5000,
+    maxRegexRules: dnr.MAX_NUMBER_OF_REGEX_RULES ?? 1000,
+  };
 };
 
+const UNSAFE_ACTION_TYPES: string[] = ['redirect', 'modifyHeaders'];
+
+/**
+ * 代理规则未指定 types 时默认匹配的资源类型
+ */
+const getDefaultResourceTypes =
+  (): chrome.declarativeNetRequest.ResourceType[] => [
+    chrome.declarativeNetRequest.ResourceType.MAIN_FRAME,
+    chrome.declarativeNetRequest.ResourceType.SUB_FRAME,
+    chrome.declarativeNetRequest.ResourceType.XMLHTTPREQUEST,
+    chrome.declarativeNetRequest.ResourceType.SCRIPT,
+    chrome.declarativeNetRequest.ResourceType.STYLESHEET,
+    chrome.declarativeNetRequest.ResourceType.IMAGE,
+    chrome.declarativeNetRequest.ResourceType.FONT,
+    chrome.declarativeNetRequest.ResourceType.OBJECT,
+    chrome.declarativeNetRequest.ResourceType.MEDIA,
+    chrome.declarativeNetRequest.ResourceType.WEBSOCKET,
+    chrome.declarativeNetRequest.ResourceType.OTHER,
+  ];
+
+/**
+ * 允许通过 append 操作修改的请求头（declarativeNetRequest 限制）
+ */
+const APPENDABLE_REQUEST_HEADERS = [
+  'accept',
+  'accept-encoding',
+  'accept-language',
+  'access-control-request-headers',
+  'cache-control',
+  'connection',
+  'content-language',
+  'cookie',
+  'forwarded',
+  'if-match',
+  'if-none-match',
+  'keep-alive',
+  'range',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'user-agent',
+  'via',
+  'want-digest',
+  'x-forwarded-for',
+];
+
 export class NetworkService {
-  private ruleIdCounter = 1;
-  private ruleMapping = new Map<
-    number,
-    { source: string; target: string; name?: string }
-  >();
-  private ruleErrors: Array<{ rule: any; error: string; type: 'proxy' | 'cors' }> = [];
+  private usedRuleIds = new Set<number>();
+  /** 本次更新中各规则标识出现的次数，内容相同的规则依次编号 */
+  private ruleKeyCounts = new Map<string, number>();
+  private ruleMapping = new Map<number, RuleMappingEntry>();
+  private ruleErrors: Array<{
+    rule: any;
+    error: string;
+    type: RuleErrorType;
+    group?: GroupRuleVo;
+  }> = [];
+  private droppedGroups: RuleStatus['droppedGroups'] = [];
+  private applyError: string | undefined;
   private beforeRequestListener: ((details: any) => any) | null = null;
   private completedListener: ((details: any) => void) | null = null;
+  private ruleMatchedListener:
+    ((info: chrome.declarativeNetRequest.MatchedRuleInfoDebug) => void) | null =
+    null;
   private currentGlobalEnabled: boolean = false;
   private currentGroups: GroupRuleVo[] = [];
+  /** 仅在指定标签页生效的规则组，生成的会话规则限定 tabIds */
+  private tabGroups: TabGroups = {};
+  /** 停用代理的标签页 */
+  private disabledTabIds: number[] = [];
+  /** 最近一次更新时的全局变量与基准地址，规则组解析时使用 */
+  private ruleContext: RuleContext = {};
+  private groupMatchers = new Map<string, GroupMatchers>();
+  /** 请求匹配使用的有序规则，按规则组列表缓存 */
+  private requestMatchers:
+    { groups: GroupRuleVo[]; rules: OrderedProxyRule[] } | undefined;
+  /** 未写入浏览器的代理规则（浏览器不支持的正则、超出配额停用的规则组），请求匹配时跳过 */
+  private skippedProxyRules = new Set<string>();
+  /** 内存中的规则状态是否由本次运行生成（此时不再从 storage.session 恢复） */
+  private hasLiveState = false;
+  private stateRestore: Promise<void> | undefined;
+  private reflectCorsRules: ReflectCorsRule[] = [];
+  /** 回显 CORS 规则的 URL 匹配，按 key 预编译，与生成的会话规则的 urlFilter 语义一致 */
+  private reflectMatchers = new Map<string, RegExp>();
+  private reflectedOrigins = new Map<string, ReflectedOrigin>();
+  private lastRuleSignature = '';
+  private lastAffectedOrigins: string[] = [];
 
   async updateRules(
     groups: GroupRuleVo[],
-    globalEnabled: boolean
+    globalEnabled: boolean,
+    settings: Partial<SystemSettings> = {},
+    tabGroups: TabGroups = {},
+    disabledTabIds: number[] = []
   ): Promise<void> {
+    // 先完成可能正在进行的状态恢复，避免恢复结果覆盖本次生成的状态
+    await this.restoreState();
+    this.tabGroups = tabGroups;
+    this.disabledTabIds = disabledTabIds;
+    const ruleContext: RuleContext = {
+      vars: parseVariables(settings.vars),
+      ...(settings.baseUrl && { baseUrl: settings.baseUrl }),
+    };
+    // 全局变量未变化时沿用原对象，已编译的规则组缓存继续有效
+    if (JSON.stringify(ruleContext) !== JSON.stringify(this.ruleContext)) {
+      this.ruleContext = ruleContext;
+      this.requestMatchers = undefined;
+    }
+
     if (!globalEnabled) {
       await this.clearAllRules();
+      await this.clearCacheIfChanged([], [], settings);
       // 重新设置监听器（禁用状态）
       this.setupNetworkLogging(globalEnabled, groups);
       return;
     }
 
-    const enabledGroups = groups.filter(group => group.enabled);
-    if (enabledGroups.length === 0) {
+    // 全局启用的规则组生成动态规则，仅在指定标签页启用的规则组生成限定 tabIds 的会话规则
+    const activeGroups = groups.filter(
+      group => group.enabled || this.getScopedTabIds(group)
+    );
+    if (activeGroups.length === 0) {
       await this.clearAllRules();
+      await this.clearCacheIfChanged([], [], settings);
       // 重新设置监听器（无规则状态）
       this.setupNetworkLogging(globalEnabled, groups);
       return;
     }
 
-    const allRules: chrome.declarativeNetRequest.Rule[] = [];
+    const groupRules = new Map<string, chrome.declarativeNetRequest.Rule[]>();
+    const affectedOrigins = new Set<string>();
     this.ruleMapping.clear();
+    this.usedRuleIds.clear();
+    this.ruleKeyCounts.clear();
     this.ruleErrors = []; // 清空之前的错误
+    this.droppedGroups = [];
+    this.applyError = undefined;
+    this.reflectCorsRules = [];
 
-    for (const group of enabledGroups) {
+    for (const group of activeGroups) {
       const validation = validateJsonFormat(group.ruleText);
       if (!validation.isValid) {
         console.warn(`Skipping group ${group.groupName} due to invalid JSON`);
         continue;
       }
 
+      const errorStart = this.ruleErrors.length;
       try {
-        const parsedRules = parseRuleGroup(group.ruleText);
-        const proxyRules = this.generateProxyRules(parsedRules.proxy || []);
-        const corsRules = this.generateCorsRules(parsedRules.cors || []);
-
-        allRules.push(...proxyRules, ...corsRules);
+        const parsedRules = parseRuleGroup(group.ruleText, this.ruleContext);
+        const corsRules = this.generateCorsRules(
+          parsedRules.cors || [],
+          parsedRules.corsConfig,
+          group.id
+        );
+        const headerRules = this.generateHeaderRules(
+          parsedRules.headers || [],
+          group.id
+        );
+        const redirectRules = (parsedRules.proxy || []).filter(
+          rule => rule.enabled && rule.action !== 'block'
+        );
+        const disableCache =
+          parsedRules.disableCache ?? settings.disableCache ?? false;
+        const noCacheRules = disableCache
+          ? this.generateNoCacheRules(redirectRules, group.id)
+          : [];
+
+        redirectRules.forEach(rule => {
+          [
+            this.getStaticOrigin(rule.source),
+            this.getRedirectOrigin(rule),
+          ].forEach(origin => {
+            if (origin) affectedOrigins.add(origin);
+          });
+        });
+        groupRules.set(group.id, [
+          ...corsRules,
+          ...headerRules,
+          ...noCacheRules,
+        ]);
       } catch (error) {
         console.error(
           `Failed to parse rules for group ${group.groupName}:`,
           error
         );
       }
+      this.attachErrorGroup(errorStart, group);
+    }
+    this.compileReflectMatchers();
+    // 已记录的来源在 Service Worker 唤醒后继续有效，只移除对应规则已变化的来源
+    await this.pruneReflectedCorsRules();
+
+    // 按生效顺序分配互不相同的优先级，排在前面的规则优先级更高；
+    // 每条规则占用的区间大小取决于其生成规则的相对优先级（排除规则在重定向规则之上）。
+    // 停用的规则组同样占用区间，启用/停用一个规则组不会改变其他规则的优先级
+    this.pruneGroupMatchers(groups);
+    const orderedEntries = this.getOrderedProxyRules(groups);
+    let basePriority = orderedEntries.reduce(
+      (total, { compiled }) => total + this.getPrioritySpan(compiled),
+      0
+    );
+
+    // 按生效顺序生成代理规则，正则先经过浏览器校验，不支持的规则单独报错
+    const proxyEntries: Array<{
+      rule: ProxyRule;
+      group: GroupRuleVo;
+      rules: chrome.declarativeNetRequest.Rule[];
+      basePriority: number;
+    }> = [];
+    for (const { rule, group, compiled } of orderedEntries) {
+      basePriority -= this.getPrioritySpan(compiled);
+      if (!activeGroups.includes(group)) {
+        continue;
+      }
+
+      const errorStart = this.ruleErrors.length;
+      let rules = this.generateProxyRules([rule], group.id);
+      const unsupported = await this.findUnsupportedRegex(rules);
+      if (unsupported) {
+        this.ruleErrors.push({
+          rule,
+          error: `Regex is not supported by the browser: ${unsupported}`,
+          type: 'proxy',
+        });
+        rules = [];
+      }
+      this.attachErrorGroup(errorStart, group);
+      proxyEntries.push({ rule, group, rules, basePriority });
+    }
+
+    // 超出配额时从列表末尾开始停用规则组，保证排在前面的规则组完整生效
+    const keptGroupIds = this.fitRuleQuota(
+      activeGroups,
+      groupRules,
+      proxyEntries
+    );
+    // 命中提示只匹配实际写入浏览器的规则
+    this.skippedProxyRules = new Set(
+      proxyEntries
+        .filter(
+          ({ group, rules }) =>
+            rules.length === 0 || !keptGroupIds.has(group.id)
+        )
+        .map(({ group, rule }) => this.getProxyRuleKey(group, rule))
+    );
+    this.requestMatchers = undefined;
+    const allRules: chrome.declarativeNetRequest.Rule[] = [];
+    const tabRules: chrome.declarativeNetRequest.Rule[] = [];
+    const addRule = (
+      group: GroupRuleVo,
+      rule: chrome.declarativeNetRequest.Rule
+    ) => {
+      const tabIds = this.getScopedTabIds(group);
+      if (tabIds) {
+        const entry = this.ruleMapping.get(rule.id);
+        if (entry) {
+          entry.tabScoped = true;
+        }
+        tabRules.push({ ...rule, condition: { ...rule.condition, tabIds } });
+      } else {
+        allRules.push(rule);
+      }
+    };
+
+    activeGroups
+      .filter(group => keptGroupIds.has(group.id))
+      .forEach(group => {
+        (groupRules.get(group.id) || []).forEach(rule => addRule(group, rule));
+      });
+
+    proxyEntries
+      .filter(({ group }) => keptGroupIds.has(group.id))
+      .forEach(({ group, rules, basePriority }) => {
+        rules.forEach(proxyRule => {
+          addRule(group, {
+            ...proxyRule,
+            priority: basePriority + (proxyRule.priority ?? 1),
+          });
+        });
+      });
+
+    if (disabledTabIds.length > 0) {
+      tabRules.push(this.createDisabledTabRule(disabledTabIds));
     }
 
     await this.applyDeclarativeRules(allRules);
+    await this.applyTabRules(tabRules);
+    await this.clearCacheIfChanged(
+      [...allRules, ...tabRules],
+      [...affectedOrigins],
+      settings
+    );
     // 规则更新后重新设置监听器
     this.setupNetworkLogging(globalEnabled, groups);
   }
 
+  /**
+   * 获取最近一次规则更新的状态，供弹窗展示
+   */
+  getRuleStatus(): RuleStatus {
+    return {
+      errors: this.ruleErrors.map(({ rule, error, type, group }) => ({
+        type,
+        error,
+        groupId: group?.id,
+        groupName: group?.groupName,
+        ruleName: rule?.name || rule?.id,
+        source: rule?.source ?? rule?.pattern,
+      })),
+      droppedGroups: this.droppedGroups,
+      learnedCorsRules: this.reflectCorsRules.map(({ groupId, rule }) => ({
+        groupId,
+        pattern: rule.pattern,
+      })),
+      applyError: this.applyError,
+    };
+  }
+
+  /**
+   * 为规则分配稳定的 ID：同一规则组中的同一条规则每次更新都得到相同的 ID，
+   * 哈希冲突时顺延到下一个未使用的 ID
+   */
+  private allocateRuleId(key: string): number {
+    let id = hashRuleKey(key);
+    while (this.usedRuleIds.has(id)) {
+      id = (id % (REFLECT_CORS_RULE_ID_BASE - 1)) + 1;
+    }
+    this.usedRuleIds.add(id);
+    return id;
+  }
+
+  /**
+   * 规则在规则组中的标识，由规则内容计算，在列表中增删、移动其他规则不影响；
+   * 同一规则组中内容相同的规则按出现顺序加上序号
+   */
+  private getRuleKey(groupId: string, content: unknown[]): string {
+    const key = `${groupId}|${JSON.stringify(content)}`;
+    const count = this.ruleKeyCounts.get(key) ?? 0;
+    this.ruleKeyCounts.set(key, count + 1);
+    return count === 0 ? key : `${key}|${count}`;
+  }
+
+  /**
+   * 规则组仅在部分标签页启用时返回这些标签页，全局启用或未单独启用时返回 undefined
+   */
+  private getScopedTabIds(group: GroupRuleVo): number[] | undefined {
+    const tabIds = this.tabGroups[group.id];
+    return !group.enabled && tabIds?.length ? tabIds : undefined;
+  }
+
+  /**
+   * 规则组是否对指定标签页生效，停用代理的标签页不匹配任何规则组
+   */
+  private isGroupActive(group: GroupRuleVo, tabId?: number): boolean {
+    if (tabId !== undefined && this.disabledTabIds.includes(tabId)) {
+      return false;
+    }
+    return (
+      group.enabled ||
+      (tabId !== undefined && !!this.getScopedTabIds(group)?.includes(tabId))
+    );
+  }
+
+  /**
+   * 停用代理的标签页：allow 规则优先级高于其他所有规则，该标签页的请求不再被重定向、拦截或修改
+   */
+  private createDisabledTabRule(
+    tabIds: number[]
+  ): chrome.declarativeNetRequest.Rule {
+    return {
+      id: this.allocateRuleId('disabledTabs'),
+      priority: DISABLED_TAB_RULE_PRIORITY,
+      action: { type: chrome.declarativeNetRequest.RuleActionType.ALLOW },
+      condition: { tabIds, resourceTypes: getDefaultResourceTypes() },
+    };
+  }
+
+  /**
+   * 代理规则占用的优先级区间：存在排除条件时 allow 规则需要多占一级
+   */
+  private getPrioritySpan(compiled: CompiledRule | undefined): number {
+    return compiled && compiled.exclusions.length > 0 ? 2 : 1;
+  }
+
+  /**
+   * 为新增的错误记录所属规则组
+   */
+  private attachErrorGroup(errorStart: number, group: GroupRuleVo): void {
+    this.ruleErrors.slice(errorStart).forEach(error => {
+      error.group = group;
+    });
+  }
+
+  /**
+   * 使用 isRegexSupported 预先校验正则（语法与内存限制），返回第一个不支持的正则及原因
+   */
+  private async findUnsupportedRegex(
+    rules: chrome.declarativeNetRequest.Rule[]
+  ): Promise<string | undefined> {
+    if (!chrome.declarativeNetRequest.isRegexSupported) {
+      return undefined;
+    }
+
+    for (const rule of rules) {
+      const regex = rule.condition.regexFilter;
+      if (!regex) continue;
+
+      try {
+        const result = await chrome.declarativeNetRequest.isRegexSupported({
+          regex,
+          isCaseSensitive: rule.condition.isUrlFilterCaseSensitive ?? false,
+          requireCapturing: !!rule.action.redirect?.regexSubstitution,
+        });
+        if (!result.isSupported) {
+          return `${regex} (${result.reason ?? 'unknown reason'})`;
+        }
+      } catch (error) {
+        console.warn(
+          '⚠️ Failed to validate regex:',
+          regex,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 按规则组顺序累计规则数、unsafe 规则数与正则规则数，超出配额的规则组及其后的规则组全部停用。
+   * 返回保留的规则组 ID
+   */
+  private fitRuleQuota(
+    groups: GroupRuleVo[],
+    groupRules: Map<string, chrome.declarativeNetRequest.Rule[]>,
+    proxyEntries: Array<{
+      group: GroupRuleVo;
+      rules: chrome.declarativeNetRequest.Rule[];
+    }>
+  ): Set<string> {
+    const { maxRules, maxUnsafeRules, maxRegexRules } = getRuleQuota();
+    const keptGroupIds = new Set<string>();
+    let ruleCount = 0;
+    let unsafeCount = 0;
+    let regexCount = 0;
+
+    for (const group of groups) {
+      const rules = [
+        ...(groupRules.get(group.id) || []),
+        ...proxyEntries
+          .filter(entry => entry.group.id === group.id)
+          .flatMap(entry => entry.rules),
+      ];
+      ruleCount += rules.length;
+      unsafeCount += rules.filter(rule =>
+        UNSAFE_ACTION_TYPES.includes(rule.action.type)
+      ).length;
+      regexCount += rules.filter(rule => rule.condition.regexFilter).length;
+
+      if (
+        this.droppedGroups.length > 0 ||
+        ruleCount > maxRules ||
+        unsafeCount > maxUnsafeRules ||
+        regexCount > maxRegexRules
+      ) {
+        this.droppedGroups.push({ id: group.id, groupName: group.groupName });
+        continue;
+      }
+      keptGroupIds.add(group.id);
+    }
+
+    if (this.droppedGroups.length > 0) {
+      console.warn(
+        '⚠️ Rule quota exceeded, dropped groups:',
+        this.droppedGroups.map(group => group.groupName).join(', '),
+        `(limits: ${maxRules} rules, ${maxUnsafeRules} unsafe rules, ${maxRegexRules} regex rules)`,
+        'Code: RULE_QUOTA_EXCEEDED'
+      );
+    }
+    return keptGroupIds;
+  }
+
+  /**
+   * 按生效顺序展开所有规则组（含停用的）的代理与拦截规则：
+   * priority 大的在前，相同时按分组顺序、组内顺序
+   */
+  private getOrderedProxyRules(groups: GroupRuleVo[]): OrderedProxyRule[] {
+    const entries: Array<OrderedProxyRule & { order: number }> = [];
+
+    groups.forEach(group => {
+      this.getGroupMatchers(group).forEach(({ rule, compiled }) => {
+        entries.push({ rule, group, compiled, order: entries.length });
+      });
+    });
+
+    return entries
+      .sort(
+        (a, b) =>
+          (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.order - b.order
+      )
+      .map(({ rule, group, compiled }) => ({ rule, group, compiled }));
+  }
+
+  /**
+   * 解析并编译规则组中启用的代理与拦截规则，规则组未修改（updateTime 相同）时直接复用。
+   * 无法编译的规则 compiled 为 undefined，错误在生成规则时统一收集
+   */
+  private getGroupMatchers(group: GroupRuleVo): GroupMatchers['rules'] {
+    const cached = this.groupMatchers.get(group.id);
+    if (
+      cached &&
+      cached.updateTime === group.updateTime &&
+      cached.ruleText === group.ruleText &&
+      cached.context === this.ruleContext
+    ) {
+      return cached.rules;
+    }
+
+    const rules: GroupMatchers['rules'] = [];
+    if (validateJsonFormat(group.ruleText).isValid) {
+      try {
+        const parsedRules = parseRuleGroup(group.ruleText, this.ruleContext);
+        [...(parsedRules.proxy || []), ...(parsedRules.block || [])].forEach(
+          rule => {
+            if (!rule.enabled) {
+              return;
+            }
+            let compiled: CompiledRule | undefined;
+            try {
+              compiled = compileRule(rule);
+            } catch {
+              compiled = undefined;
+            }
+            rules.push({ rule, compiled });
+          }
+        );
+      } catch (error) {
+        console.error(
+          'Failed to parse rules for group:',
+          'Group name:',
+          group.groupName,
+          'Error:',
+          error instanceof Error ? error.message : String(error),
+          'Code: RULE_PARSE_ERROR'
+        );
+      }
+    }
+
+    this.groupMatchers.set(group.id, {
+      updateTime: group.updateTime,
+      ruleText: group.ruleText,
+      context: this.ruleContext,
+      rules,
+    });
+    return rules;
+  }
+
+  /**
+   * 移除已删除规则组的缓存
+   */
+  private pruneGroupMatchers(groups: GroupRuleVo[]): void {
+    const groupIds = new Set(groups.map(group => group.id));
+    [...this.groupMatchers.keys()].forEach(groupId => {
+      if (!groupIds.has(groupId)) {
+        this.groupMatchers.delete(groupId);
+      }
+    });
+  }
+
+  /**
+   * 为重定向目标生成禁用缓存的规则：去掉条件请求头与缓存校验头，避免拿到旧资源
+   */
+  private generateNoCacheRules(
+    proxyRules: ProxyRule[],
+    groupId = ''
+  ): chrome.declarativeNetRequest.Rule[] {
+    const { HeaderOperation, RuleActionType } = chrome.declarativeNetRequest;
+    const origins = new Set<string>();
+
+    proxyRules.forEach(rule => {
+      const origin = this.getRedirectOrigin(rule);
+      if (origin) {
+        origins.add(origin);
+      } else {
+        this.ruleErrors.push({
+          rule,
+          error: rule.transform
+            ? `Cannot disable cache for transform without scheme and host: ${rule.source}`
+            : `Cannot disable cache for dynamic target origin: ${rule.target}`,
+          type: 'headers',
+        });
+      }
+    });
+
+    return [...origins].map(origin => ({
+      id: this.allocateRuleId(`${groupId}|noCache|${origin}`),
+      priority: MODIFY_HEADERS_RULE_PRIORITY,
+      action: {
+        type: RuleActionType.MODIFY_HEADERS,
+        requestHeaders: [
+          {
+            header: 'Cache-Control',
+            operation: HeaderOperation.SET,
+            value: 'no-cache',
+          },
+          ...CACHE_REQUEST_HEADERS.map(header => ({
+            header,
+            operation: HeaderOperation.REMOVE,
+          })),
+        ],
+        responseHeaders: [
+          {
+            header: 'Cache-Control',
+            operation: HeaderOperation.SET,
+            value: 'no-store',
+          },
+          ...CACHE_RESPONSE_HEADERS.map(header => ({
+            header,
+            operation: HeaderOperation.REMOVE,
+          })),
+        ],
+      },
+      condition: {
+        urlFilter: `|${origin}/`,
+        resourceTypes: getDefaultResourceTypes(),
+      },
+    }));
+  }
+
+  /**
+   * 重定向后的请求来源。transform 需指定协议与主机，未指定端口时沿用源地址的端口（无法确定时按默认端口）
+   */
+  private getRedirectOrigin(rule: ProxyRule): string | undefined {
+    if (!rule.transform) {
+      return this.getStaticOrigin(rule.target);
+    }
+
+    const { scheme, host, port } = rule.transform;
+    if (!scheme || !host) {
+      return undefined;
+    }
+    const sourcePort =
+      port ?? new URL(this.getStaticOrigin(rule.source) ?? 'http://x').port;
+    return this.getStaticOrigin(
+      `${scheme}://${host}${sourcePort ? `:${sourcePort}` : ''}`
+    );
+  }
+
+  /**
+   * 提取不含通配符和捕获组引用的 URL 来源，无法确定时返回 undefined
+   */
+  private getStaticOrigin(url: string): string | undefined {
+    const match = url.match(/^(https?:\/\/[^/?#]+)/i);
+    if (!match || /[*$()[\]\\|^]/.test(match[1])) {
+      return undefined;
+    }
+    try {
+      return new URL(match[1]).origin;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 生效规则集变化时清除新旧规则涉及来源的浏览器缓存
+   */
+  private async clearCacheIfChanged(
+    rules: chrome.declarativeNetRequest.Rule[],
+    affectedOrigins: string[],
+    settings: Partial<SystemSettings>
+  ): Promise<void> {
+    const signature = JSON.stringify(rules.map(({ id: _id, ...rule }) => rule));
+    const previousOrigins = this.lastAffectedOrigins;
+    const changed = signature !== this.lastRuleSignature;
+    this.lastRuleSignature = signature;
+    this.lastAffectedOrigins = affectedOrigins;
+
+    if (!changed || !settings.clearCacheOnUpdate || !chrome.browsingData) {
+      return;
+    }
+
+    const [origin, ...rest] = new Set([...previousOrigins, ...affectedOrigins]);
+    if (!origin) {
+      return;
+    }
+
+    const origins: [string, ...string[]] = [origin, ...rest];
+    try {
+      await chrome.browsingData.removeCache({ origins });
+      console.log('🧹 Cleared browser cache for origins:', origins);
+    } catch (error) {
+      console.error(
+        '❌ Failed to clear browser cache:',
+        error instanceof Error ? error.message : String(error),
+        'Code: CLEAR_CACHE_ERROR'
+      );
+    }
+  }
+
   private generateProxyRules(
-    proxyRules: ProxyRule[]
+    proxyRules: ProxyRule[],
+    groupId = ''
   ): chrome.declarativeNetRequest.Rule[] {
     const rules: chrome.declarativeNetRequest.Rule[] = [];
 
@@ -100,78 +904,48 @@ export class NetworkService {
       if (!rule.enabled) return;
 
       try {
-        // 检查是否包含需要特殊处理的负向断言
-        const hasNegativeLookbehind = rule.source.includes('(?<!');
-        if (hasNegativeLookbehind) {
-          // 为负向断言创建特殊规则
-          const specialRules = this.createNegativeLookbehindRules(rule);
-          rules.push(...specialRules);
-          return; // 在forEach中使用return而不是continue
-        }
+        const compiled = compileRule(rule);
+        const ruleKey = this.getRuleKey(groupId, [
+          rule.action,
+          rule.source,
+          rule.target,
+        ]);
+        rules.push(
+          ...this.createExclusionRules(rule, compiled, groupId, ruleKey)
+        );
 
-        let redirect = this.convertToRedirect(rule.source, rule.target);
-        
-        if (redirect) {
-          const ruleId = this.ruleIdCounter++;
+        if (rule.action === 'block') {
+          rules.push(this.createBlockRule(rule, compiled, groupId, ruleKey));
+          return;
+        }
 
-          this.ruleMapping.set(ruleId, {
-            source: rule.source,
-            target: rule.target,
-            name: rule.name,
-          });
+        const ruleId = this.allocateRuleId(`${ruleKey}|redirect`);
 
-          // 判断是否需要使用正则表达式
-          const isRegexPattern = rule.source.includes('(') && redirect.regexSubstitution;
-          
-          let condition: any = {
-            resourceTypes: [
-              chrome.declarativeNetRequest.ResourceType.MAIN_FRAME,
-              chrome.declarativeNetRequest.ResourceType.SUB_FRAME,
-              chrome.declarativeNetRequest.ResourceType.XMLHTTPREQUEST,
-              chrome.declarativeNetRequest.ResourceType.SCRIPT,
-              chrome.declarativeNetRequest.ResourceType.STYLESHEET,
-              chrome.declarativeNetRequest.ResourceType.IMAGE,
-              chrome.declarativeNetRequest.ResourceType.FONT,
-              chrome.declarativeNetRequest.ResourceType.OBJECT,
-              chrome.declarativeNetRequest.ResourceType.MEDIA,
-              chrome.declarativeNetRequest.ResourceType.WEBSOCKET,
-              chrome.declarativeNetRequest.ResourceType.OTHER,
-            ],
-          };
-
-          if (isRegexPattern && redirect.regexSubstitution) {
-            // 使用regexFilter而不是urlFilter
-            const regexFilter = this.convertToRegexFilter(rule.source);
-            if (regexFilter) {
-              condition.regexFilter = regexFilter;
-            } else {
-              // 如果regexFilter转换失败，回退到urlFilter并清除regexSubstitution
-              condition.urlFilter = this.convertToUrlFilter(rule.source);
-              redirect = { url: rule.target }; // 清除regexSubstitution，使用简单URL重定向
-            }
-          } else {
-            // 使用urlFilter
-            condition.urlFilter = this.convertToUrlFilter(rule.source);
-          }
+        this.ruleMapping.set(ruleId, {
+          id: rule.id,
+          source: rule.source,
+          target: rule.target,
+          name: rule.name,
+          type: rule.type,
+          caseSensitive: rule.caseSensitive,
+          anchored: rule.anchored,
+          transform: rule.transform,
+          preserveQuery: rule.preserveQuery,
+          groupId,
+        });
 
-          rules.push({
-            id: ruleId,
-            priority: 1,
-            action: {
-              type: chrome.declarativeNetRequest.RuleActionType.REDIRECT,
-              redirect,
-            },
-            condition,
-          });
-        } else {
-          // 如果redirect转换失败，记录错误但继续处理其他规则
-          const errorMsg = `Failed to convert redirect for rule: ${rule.source} -> ${rule.target}`;
-          this.ruleErrors.push({
-            rule: rule,
-            error: errorMsg,
-            type: 'proxy'
-          });
-        }
+        rules.push({
+          id: ruleId,
+          priority: 1,
+          action: {
+            type: chrome.declarativeNetRequest.RuleActionType.REDIRECT,
+            redirect: compiled.redirect,
+          },
+          condition: {
+            ...this.buildRuleCondition(rule),
+            ...compiled.condition,
+          },
+        });
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
         console.error(
@@ -194,8 +968,75 @@ export class NetworkService {
     return rules;
   }
 
+  /**
+   * 生成拦截规则
+   */
+  private createBlockRule(
+    rule: ProxyRule,
+    compiled: CompiledRule,
+    groupId: string,
+    ruleKey: string
+  ): chrome.declarativeNetRequest.Rule {
+    const condition = {
+      ...this.buildRuleCondition(rule),
+      ...compiled.condition,
+    };
+
+    const ruleId = this.allocateRuleId(`${ruleKey}|block`);
+    this.ruleMapping.set(ruleId, {
+      id: rule.id,
+      source: rule.source,
+      target: '',
+      name: rule.name,
+      action: 'block',
+      groupId,
+    });
+
+    return {
+      id: ruleId,
+      priority: 1,
+      action: { type: chrome.declarativeNetRequest.RuleActionType.BLOCK },
+      condition,
+    };
+  }
+
+  /**
+   * 为断言转换出的排除条件生成 allow 规则，相对优先级高于对应的重定向/拦截规则
+   */
+  private createExclusionRules(
+    rule: ProxyRule,
+    compiled: CompiledRule,
+    groupId: string,
+    ruleKey: string
+  ): chrome.declarativeNetRequest.Rule[] {
+    return compiled.exclusions.map((regexFilter, index) => {
+      const ruleId = this.allocateRuleId(`${ruleKey}|allow|${index}`);
+      this.ruleMapping.set(ruleId, {
+        id: rule.id,
+        source: rule.source,
+        target: '',
+        name: rule.name,
+        action: 'allow',
+        groupId,
+      });
+
+      return {
+        id: ruleId,
+        priority: 2,
+        action: { type: chrome.declarativeNetRequest.RuleActionType.ALLOW },
+        condition: {
+          ...this.buildRuleCondition(rule),
+          regexFilter,
+          isUrlFilterCaseSensitive: compiled.condition.isUrlFilterCaseSensitive,
+        },
+      };
+    });
+  }
+
   private generateCorsRules(
-    corsRules: CorsRule[]
+    corsRules: CorsRule[],
+    groupCorsConfig: Partial<CorsPolicy> = {},
+    groupId = ''
   ): chrome.declarativeNetRequest.Rule[] {
     const rules: chrome.declarativeNetRequest.Rule[] = [];
 
@@ -205,44 +1046,37 @@ export class NetworkService {
       try {
         const urlFilter = this.convertToUrlFilter(rule.pattern);
         if (urlFilter) {
+          const policy = this.resolveCorsPolicy(rule, groupCorsConfig);
+          const ruleKey = this.getRuleKey(groupId, ['cors', rule.pattern]);
+          if (policy.origin === 'reflect') {
+            rules.push(
+              ...this.generateReflectCorsRules(
+                rule,
+                policy,
+                urlFilter,
+                groupId,
+                ruleKey
+              )
+            );
+            return;
+          }
+
           rules.push({
-            id: this.ruleIdCounter++,
-            priority: 2,
+            id: this.allocateRuleId(ruleKey),
+            priority: MODIFY_HEADERS_RULE_PRIORITY,
             action: {
               type: chrome.declarativeNetRequest.RuleActionType.MODIFY_HEADERS,
-              responseHeaders: [
-                {
-                  header: CORS_HEADERS.ORIGIN,
-                  operation: chrome.declarativeNetRequest.HeaderOperation.SET,
-                  value: DEFAULT_CORS_CONFIG.origin,
-                },
-                {
-                  header: CORS_HEADERS.CREDENTIALS,
-                  operation: chrome.declarativeNetRequest.HeaderOperation.SET,
-                  value: DEFAULT_CORS_CONFIG.credentials,
-                },
-                {
-                  header: CORS_HEADERS.METHODS,
-                  operation: chrome.declarativeNetRequest.HeaderOperation.SET,
-                  value: DEFAULT_CORS_CONFIG.methods,
-                },
-                {
-                  header: CORS_HEADERS.HEADERS,
-                  operation: chrome.declarativeNetRequest.HeaderOperation.SET,
-                  value: DEFAULT_CORS_CONFIG.headers,
-                },
-              ],
+              responseHeaders: this.buildCorsHeaders(policy, policy.origin),
             },
             condition: {
               urlFilter,
-              resourceTypes: [
-                chrome.declarativeNetRequest.ResourceType.XMLHTTPREQUEST,
-              ],
+              resourceTypes:
+                policy.resourceTypes as chrome.declarativeNetRequest.ResourceType[],
             },
           });
         } else {
           // 如果urlFilter转换失败，记录错误但继续处理其他规则
-          const errorMsg = `Failed to convert URL filter for CORS rule: ${rule.source}`;
+          const errorMsg = `Failed to convert URL filter for CORS rule: ${rule.pattern}`;
           this.ruleErrors.push({
             rule: rule,
             error: errorMsg,
@@ -264,182 +1098,481 @@ export class NetworkService {
     return rules;
   }
 
-  private convertToRegexFilter(source: string): string | undefined {
-    try {
-      
-      // 尝试转换不支持的正则语法
-      let regexFilter = this.convertUnsupportedRegexSyntax(source);
-      if (!regexFilter) {
-        return undefined;
+  /**
+   * 为列出的来源预先生成回显规则。declarativeNetRequest 无法回显请求来源，
+   * 未列出来源或同一主机名列出多个来源时，命中后按来源生成会话规则
+   */
+  private generateReflectCorsRules(
+    rule: CorsRule,
+    policy: CorsPolicy,
+    urlFilter: string,
+    groupId: string,
+    ruleKey: string
+  ): chrome.declarativeNetRequest.Rule[] {
+    const origins = policy.origins ?? [];
+    const hostnames = origins.map(origin => new URL(origin).hostname);
+    const rules: chrome.declarativeNetRequest.Rule[] = [];
+    const learned: string[] = [];
+
+    origins.forEach((origin, index) => {
+      const hostname = hostnames[index];
+      // 发起方只能按主机名匹配，同一主机名的不同端口仍需按标签页区分
+      if (hostnames.indexOf(hostname) !== hostnames.lastIndexOf(hostname)) {
+        learned.push(origin);
+        return;
       }
-      
-      // 确保以 ^ 开头和 $ 结尾以精确匹配
-      if (!regexFilter.startsWith('^')) {
-        regexFilter = '^' + regexFilter;
+      // initiatorDomains 同时匹配子域名，列出的子域名由各自的规则处理
+      const subdomains = hostnames.filter(host =>
+        host.endsWith(`.${hostname}`)
+      );
+      rules.push({
+        id: this.allocateRuleId(`${ruleKey}|${origin}`),
+        priority: MODIFY_HEADERS_RULE_PRIORITY,
+        action: {
+          type: chrome.declarativeNetRequest.RuleActionType.MODIFY_HEADERS,
+          responseHeaders: this.buildCorsHeaders(policy, origin),
+        },
+        condition: {
+          urlFilter,
+          initiatorDomains: [hostname],
+          ...(subdomains.length > 0 && {
+            excludedInitiatorDomains: subdomains,
+          }),
+          resourceTypes:
+            policy.resourceTypes as chrome.declarativeNetRequest.ResourceType[],
+        },
+      });
+    });
+
+    if (!policy.origins || learned.length > 0) {
+      this.reflectCorsRules.push({
+        key: JSON.stringify([groupId, rule, policy]),
+        groupId,
+        rule,
+        policy,
+        urlFilter,
+        ...(policy.origins && { origins: learned }),
+      });
+    }
+    return rules;
+  }
+
+  /**
+   * 合并默认配置、分组配置与规则配置，后者优先
+   */
+  private resolveCorsPolicy(
+    rule: CorsRule,
+    groupCorsConfig: Partial<CorsPolicy>
+  ): CorsPolicy {
+    const ruleConfig = Object.fromEntries(
+      Object.entries({
+        origin: rule.origin,
+        origins: rule.origins,
+        credentials: rule.credentials,
+        methods: rule.methods,
+        headers: rule.headers,
+        exposeHeaders: rule.exposeHeaders,
+        maxAge: rule.maxAge,
+        resourceTypes: rule.resourceTypes,
+      }).filter(([, value]) => value !== undefined)
+    ) as Partial<CorsPolicy>;
+    const policy: CorsPolicy = {
+      ...DEFAULT_CORS_CONFIG,
+      ...groupCorsConfig,
+      ...ruleConfig,
+    };
+
+    // 列出来源时只回显这些来源；
+    // 浏览器不接受 * 与凭据同时出现，携带凭据时改为回显请求来源
+    if (policy.origins || (policy.credentials && policy.origin === '*')) {
+      policy.origin = 'reflect';
+    }
+
+    return policy;
+  }
+
+  private buildCorsHeaders(
+    policy: CorsPolicy,
+    origin: string
+  ): chrome.declarativeNetRequest.ModifyHeaderInfo[] {
+    const set = (header: string, value: string) => ({
+      header,
+      operation: chrome.declarativeNetRequest.HeaderOperation.SET,
+      value,
+    });
+    const headers = [
+      set(CORS_HEADERS.ORIGIN, origin),
+      set(CORS_HEADERS.METHODS, policy.methods),
+      set(CORS_HEADERS.HEADERS, policy.headers),
+    ];
+
+    if (policy.credentials) {
+      headers.push(set(CORS_HEADERS.CREDENTIALS, 'true'));
+    }
+    if (policy.exposeHeaders) {
+      headers.push(set(CORS_HEADERS.EXPOSE_HEADERS, policy.exposeHeaders));
+    }
+    if (policy.maxAge !== undefined) {
+      headers.push(set(CORS_HEADERS.MAX_AGE, String(policy.maxAge)));
+    }
+    if (origin !== '*') {
+      // 响应内容随来源变化，避免缓存串用
+      headers.push({
+        header: 'Vary',
+        operation: chrome.declarativeNetRequest.HeaderOperation.APPEND,
+        value: 'Origin',
+      });
+    }
+
+    return headers;
+  }
+
+  /**
+   * 为回显来源的 CORS 规则记录请求来源，并生成只对该来源生效的会话规则。
+   * 规则在请求发出后才生成，来自新来源的第一个请求不会带上 CORS 响应头
+   */
+  private async reflectCorsOrigin(details: {
+    url: string;
+    type?: string;
+    initiator?: string;
+    tabId?: number;
+  }): Promise<void> {
+    const initiatorHost = this.getHostname(details.initiator);
+    if (!initiatorHost || this.reflectCorsRules.length === 0) {
+      return;
+    }
+
+    const origin = new URL(details.initiator as string).origin;
+    const tabId = details.tabId ?? -1;
+    const changed = new Set<ReflectedOrigin>();
+
+    this.reflectCorsRules.forEach(({ key, policy, origins }) => {
+      if (
+        (origins && !origins.includes(origin)) ||
+        !policy.resourceTypes.some(
+          type => type === (details.type || 'other')
+        ) ||
+        !this.reflectMatchers.get(key)?.test(details.url)
+      ) {
+        return;
       }
-      if (!regexFilter.endsWith('$')) {
-        regexFilter = regexFilter + '$';
+
+      const entry = this.reflectedOrigins.get(`${key}|${origin}`);
+      if (entry?.tabIds.includes(tabId)) {
+        return;
       }
-      
-      // 将贪婪匹配 (.*) 转换为非贪婪匹配 (.*?) 以提高匹配精度
-      regexFilter = regexFilter.replace(/\(\.\*\)/g, '(.*?)');
-      
-      return regexFilter;
+
+      // 标签页切换到同一主机名的其他来源后，原来源的规则不再对该标签页生效
+      this.reflectedOrigins.forEach(other => {
+        if (
+          other.corsKey === key &&
+          other.origin !== origin &&
+          this.getHostname(other.origin) === initiatorHost &&
+          other.tabIds.includes(tabId)
+        ) {
+          other.tabIds = other.tabIds.filter(id => id !== tabId);
+          changed.add(other);
+        }
+      });
+
+      const next = entry ?? {
+        corsKey: key,
+        origin,
+        ruleId: this.nextReflectRuleId(),
+        tabIds: [],
+      };
+      next.tabIds = [...next.tabIds, tabId];
+      this.reflectedOrigins.set(`${key}|${origin}`, next);
+      changed.add(next);
+    });
+
+    if (changed.size === 0) {
+      return;
+    }
+
+    const removeRuleIds: number[] = [];
+    const addRules: chrome.declarativeNetRequest.Rule[] = [];
+    changed.forEach(entry => {
+      removeRuleIds.push(entry.ruleId);
+      if (entry.tabIds.length === 0) {
+        this.reflectedOrigins.delete(`${entry.corsKey}|${entry.origin}`);
+        return;
+      }
+      const reflect = this.reflectCorsRules.find(
+        ({ key }) => key === entry.corsKey
+      );
+      if (reflect) {
+        addRules.push(this.buildReflectedCorsRule(reflect, entry));
+      }
+    });
+
+    try {
+      await chrome.declarativeNetRequest.updateSessionRules({
+        removeRuleIds,
+        addRules,
+      });
+      await this.persistState();
     } catch (error) {
-      console.error('❌ Failed to convert regex filter:', source, error);
-      return undefined;
+      console.error(
+        '❌ Failed to add reflected CORS rules:',
+        error instanceof Error ? error.message : String(error),
+        'Code: CORS_REFLECT_ERROR'
+      );
     }
   }
 
-  private convertUnsupportedRegexSyntax(source: string): string | undefined {
-    try {
-      
-      let converted = source;
-      
-      // 处理负向后行断言 (?<!pattern)
-      // 例如: (.*)(?<!\.json)$ -> (.*?)(?!.*\.json$)
-      const negativeLookbehindMatch = converted.match(/\(\?\<\!([^)]+)\)\$?$/);
-      if (negativeLookbehindMatch) {
-        const excludePattern = negativeLookbehindMatch[1];
-        
-        // 移除负向后行断言
-        converted = converted.replace(/\(\?\<\![^)]+\)\$?$/, '');
-        
-        // 如果排除的是文件扩展名，我们可以通过修改主模式来实现
-        if (excludePattern.includes('\\.')) {
-          // 处理文件扩展名排除，如 (?<!\.json)
-          const extension = excludePattern.replace(/\\\./g, '.');
-          
-          // 转换为正向匹配：匹配不以该扩展名结尾的文件
-          // 这是一个简化的实现，可能需要根据具体需求调整
-          if (!converted.endsWith('$')) {
-            converted += '$';
-          }
-          
-          // 将 (.*)$ 转换为 (.*?)(?!\\.json$)
-          // 但由于Chrome不支持负向先行断言，我们需要用其他方式
-          
-          // 返回undefined，让调用方使用urlFilter + 额外逻辑处理
-          return undefined;
-        }
+  private buildReflectedCorsRule(
+    { policy, urlFilter }: ReflectCorsRule,
+    entry: ReflectedOrigin
+  ): chrome.declarativeNetRequest.Rule {
+    return {
+      id: entry.ruleId,
+      priority: MODIFY_HEADERS_RULE_PRIORITY,
+      action: {
+        type: chrome.declarativeNetRequest.RuleActionType.MODIFY_HEADERS,
+        responseHeaders: this.buildCorsHeaders(policy, entry.origin),
+      },
+      condition: {
+        urlFilter,
+        initiatorDomains: [new URL(entry.origin).hostname],
+        tabIds: entry.tabIds,
+        resourceTypes:
+          policy.resourceTypes as chrome.declarativeNetRequest.ResourceType[],
+      },
+    };
+  }
+
+  private compileReflectMatchers(): void {
+    this.reflectMatchers = new Map(
+      this.reflectCorsRules.map(({ key, urlFilter }) => [
+        key,
+        urlFilterToRegExp(urlFilter),
+      ])
+    );
+  }
+
+  private nextReflectRuleId(): number {
+    const ruleIds = [...this.reflectedOrigins.values()].map(
+      entry => entry.ruleId
+    );
+    return ruleIds.length > 0
+      ? Math.max(...ruleIds) + 1
+      : REFLECT_CORS_RULE_ID_BASE;
+  }
+
+  /**
+   * 移除回显 CORS 规则已不存在的来源，并删除浏览器中不再记录的回显会话规则
+   */
+  private async pruneReflectedCorsRules(): Promise<void> {
+    const corsKeys = new Set(this.reflectCorsRules.map(({ key }) => key));
+    this.reflectedOrigins.forEach((entry, key) => {
+      if (!corsKeys.has(entry.corsKey)) {
+        this.reflectedOrigins.delete(key);
       }
-      
-      // 处理其他不支持的语法
-      const unsupportedPatterns = [
-        /\(\?\=/,      // 正向先行断言 (?=...)
-        /\(\?\!/,      // 负向先行断言 (?!...)
-        /\\[bBAZ]/,    // 词边界等高级语法
-      ];
-      
-      for (const pattern of unsupportedPatterns) {
-        if (pattern.test(converted)) {
-            return undefined;
-        }
+    });
+    if (!chrome.declarativeNetRequest.getSessionRules) {
+      return;
+    }
+
+    try {
+      const keptRuleIds = new Set(
+        [...this.reflectedOrigins.values()].map(entry => entry.ruleId)
+      );
+      const sessionRules = await chrome.declarativeNetRequest.getSessionRules();
+      const removeRuleIds = sessionRules
+        .map(rule => rule.id)
+        .filter(id => id >= REFLECT_CORS_RULE_ID_BASE && !keptRuleIds.has(id));
+      if (removeRuleIds.length > 0) {
+        await chrome.declarativeNetRequest.updateSessionRules({
+          removeRuleIds,
+        });
       }
-      
-      return converted;
-      
     } catch (error) {
-      console.error('❌ Failed to convert unsupported regex syntax:', source, error);
-      return undefined;
+      console.error('Failed to clear reflected CORS rules:', error);
     }
   }
 
-  private createNegativeLookbehindRules(rule: ProxyRule): chrome.declarativeNetRequest.Rule[] {
+  /**
+   * 更新限定标签页的会话规则，与动态规则一样只更新发生变化的规则。
+   * 回显来源的 CORS 规则使用独立的 ID 区间，不受影响
+   */
+  private async applyTabRules(
+    rules: chrome.declarativeNetRequest.Rule[]
+  ): Promise<void> {
+    if (!chrome.declarativeNetRequest.getSessionRules) {
+      return;
+    }
+
     try {
-      
-      const rules: chrome.declarativeNetRequest.Rule[] = [];
-      
-      // 解析负向后行断言
-      const match = rule.source.match(/^(.*?)\(\?\<\!([^)]+)\)\$?$/);
-      if (!match) {
-        return [];
-      }
-      
-      const basePattern = match[1];
-      const excludePattern = match[2];
-      
-      
-      // 如果排除的是文件扩展名（如 \.json）
-      if (excludePattern.includes('\\.')) {
-        const extension = excludePattern.replace(/\\\./g, '.');
-        
-        // 创建一个匹配所有文件但排除特定扩展名的规则
-        const ruleId = this.ruleIdCounter++;
-        
-        this.ruleMapping.set(ruleId, {
-          source: rule.source,
-          target: rule.target,
-          name: rule.name,
+      const existingRules = (
+        await chrome.declarativeNetRequest.getSessionRules()
+      ).filter(rule => rule.id < REFLECT_CORS_RULE_ID_BASE);
+      const existingById = new Map(
+        existingRules.map(rule => [rule.id, serializeRule(rule)])
+      );
+      const nextIds = new Set(rules.map(rule => rule.id));
+      const addRules = rules.filter(
+        rule => existingById.get(rule.id) !== serializeRule(rule)
+      );
+      const removeRuleIds = existingRules
+        .map(rule => rule.id)
+        .filter(id => !nextIds.has(id))
+        .concat(
+          addRules.map(rule => rule.id).filter(id => existingById.has(id))
+        );
+
+      if (addRules.length > 0 || removeRuleIds.length > 0) {
+        await chrome.declarativeNetRequest.updateSessionRules({
+          removeRuleIds,
+          addRules,
         });
-        
-        // 修改basePattern以排除特定扩展名
-        let modifiedPattern = basePattern;
-        if (!modifiedPattern.endsWith('$')) {
-          modifiedPattern += '$';
+      }
+    } catch (error) {
+      this.applyError = error instanceof Error ? error.message : String(error);
+      console.error(
+        '❌ Failed to apply tab rules:',
+        'Rules count:',
+        rules.length,
+        'Error:',
+        this.applyError,
+        'Code: TAB_RULES_ERROR'
+      );
+    }
+  }
+
+  /**
+   * 将请求头规则编译为 MODIFY_HEADERS 规则
+   */
+  private generateHeaderRules(
+    headerRules: HeaderRule[],
+    groupId = ''
+  ): chrome.declarativeNetRequest.Rule[] {
+    const rules: chrome.declarativeNetRequest.Rule[] = [];
+
+    headerRules.forEach(rule => {
+      if (!rule.enabled) return;
+
+      try {
+        if (
+          rule.requestHeaders.length === 0 &&
+          rule.responseHeaders.length === 0
+        ) {
+          this.ruleErrors.push({
+            rule,
+            error: `No header modifications for headers rule: ${rule.pattern}`,
+            type: 'headers',
+          });
+          return;
         }
-        
-        const redirect = this.convertToRedirect(basePattern, rule.target);
-        if (!redirect) {
-          return [];
+
+        const invalidAppend = rule.requestHeaders.find(
+          modification =>
+            modification.operation === 'append' &&
+            !APPENDABLE_REQUEST_HEADERS.includes(
+              modification.header.toLowerCase()
+            )
+        );
+        if (invalidAppend) {
+          this.ruleErrors.push({
+            rule,
+            error: `Request header "${invalidAppend.header}" does not support append`,
+            type: 'headers',
+          });
+          return;
         }
-        
-        const condition: any = {
-          resourceTypes: [
-            chrome.declarativeNetRequest.ResourceType.MAIN_FRAME,
-            chrome.declarativeNetRequest.ResourceType.SUB_FRAME,
-            chrome.declarativeNetRequest.ResourceType.XMLHTTPREQUEST,
-            chrome.declarativeNetRequest.ResourceType.SCRIPT,
-            chrome.declarativeNetRequest.ResourceType.STYLESHEET,
-            chrome.declarativeNetRequest.ResourceType.IMAGE,
-            chrome.declarativeNetRequest.ResourceType.FONT,
-            chrome.declarativeNetRequest.ResourceType.OBJECT,
-            chrome.declarativeNetRequest.ResourceType.MEDIA,
-            chrome.declarativeNetRequest.ResourceType.WEBSOCKET,
-            chrome.declarativeNetRequest.ResourceType.OTHER,
-          ],
-          // 使用 excludedRequestDomains 或其他条件来排除特定文件
+
+        const urlFilter = this.convertToUrlFilter(rule.pattern);
+        if (!urlFilter) {
+          this.ruleErrors.push({
+            rule,
+            error: `Failed to convert URL filter for headers rule: ${rule.pattern}`,
+            type: 'headers',
+          });
+          return;
+        }
+
+        const action: chrome.declarativeNetRequest.RuleAction = {
+          type: chrome.declarativeNetRequest.RuleActionType.MODIFY_HEADERS,
         };
-        
-        // 尝试使用regexFilter来处理模式
-        const isRegexPattern = basePattern.includes('(');
-        if (isRegexPattern && redirect.regexSubstitution) {
-          const regexFilter = this.convertToRegexFilter(basePattern);
-          if (regexFilter) {
-            condition.regexFilter = regexFilter;
-          } else {
-            condition.urlFilter = this.convertToUrlFilter(basePattern);
-          }
-        } else {
-          condition.urlFilter = this.convertToUrlFilter(basePattern);
+        if (rule.requestHeaders.length > 0) {
+          action.requestHeaders = rule.requestHeaders.map(this.toHeaderInfo);
         }
-        
-        // 添加排除条件
-        if (!condition.excludedRequestDomains) {
-          condition.excludedRequestDomains = [];
+        if (rule.responseHeaders.length > 0) {
+          action.responseHeaders = rule.responseHeaders.map(this.toHeaderInfo);
         }
-        
-        // 由于Chrome API限制，我们需要创建一个更复杂的匹配逻辑
-        // 这里我们简化处理：创建一个覆盖大部分情况但不包含.json的规则
-        
+
         rules.push({
-          id: ruleId,
-          priority: 1,
-          action: {
-            type: chrome.declarativeNetRequest.RuleActionType.REDIRECT,
-            redirect,
+          id: this.allocateRuleId(
+            this.getRuleKey(groupId, ['headers', rule.pattern])
+          ),
+          priority: MODIFY_HEADERS_RULE_PRIORITY,
+          action,
+          condition: {
+            ...this.buildRuleCondition(rule),
+            urlFilter,
           },
-          condition,
         });
-        
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error('Failed to generate headers rule:', rule, errorMsg);
+        this.ruleErrors.push({
+          rule,
+          error: `Headers rule generation failed: ${errorMsg}`,
+          type: 'headers',
+        });
       }
-      
-      return rules;
-      
-    } catch (error) {
-      console.error('❌ Failed to create negative lookbehind rules:', error);
-      return [];
+    });
+
+    return rules;
+  }
+
+  private toHeaderInfo(
+    modification: HeaderModification
+  ): chrome.declarativeNetRequest.ModifyHeaderInfo {
+    const operation =
+      modification.operation as chrome.declarativeNetRequest.HeaderOperation;
+    return modification.operation === 'remove'
+      ? { header: modification.header, operation }
+      : { header: modification.header, operation, value: modification.value };
+  }
+
+  /**
+   * 获取规则生效的资源类型，未配置时使用默认列表
+   */
+  private getResourceTypes(
+    rule: RuleConditionOptions
+  ): chrome.declarativeNetRequest.ResourceType[] {
+    if (rule.types && rule.types.length > 0) {
+      return rule.types as chrome.declarativeNetRequest.ResourceType[];
+    }
+    return getDefaultResourceTypes();
+  }
+
+  /**
+   * 根据规则的附加选项生成基础匹配条件（不含 URL 过滤）
+   */
+  private buildRuleCondition(
+    rule: RuleConditionOptions
+  ): chrome.declarativeNetRequest.RuleCondition {
+    const condition: chrome.declarativeNetRequest.RuleCondition = {
+      resourceTypes: this.getResourceTypes(rule),
+    };
+
+    if (rule.methods?.length) {
+      condition.requestMethods =
+        rule.methods as chrome.declarativeNetRequest.RequestMethod[];
+    }
+    if (rule.initiatorDomains?.length) {
+      condition.initiatorDomains = rule.initiatorDomains;
+    }
+    if (rule.excludedInitiatorDomains?.length) {
+      condition.excludedInitiatorDomains = rule.excludedInitiatorDomains;
     }
+    if (rule.excludedRequestDomains?.length) {
+      condition.excludedRequestDomains = rule.excludedRequestDomains;
+    }
+
+    return condition;
   }
 
   private convertToUrlFilter(source: string): string | undefined {
@@ -506,94 +1639,6 @@ export class NetworkService {
   }
 
 
-  private convertToRedirect(
-    source: string,
-    target: string
-  ): chrome.declarativeNetRequest.Redirect | undefined {
-    try {
-
-      // 直接URL重定向: https://example.com/new (仅当source不包含捕获组时)
-      if (!source.includes('(') && (target.startsWith('http://') || target.startsWith('https://'))) {
-        return { url: target };
-      }
-
-      // 处理正则表达式替换: (.*)/old/(.*) -> $1/new/$2 或完整URL替换
-      if (source.includes('(')) {
-        
-        // 先验证正则表达式是否可以转换为有效的regexFilter
-        const testRegexFilter = this.convertToRegexFilter(source);
-        if (!testRegexFilter) {
-          return { url: target };
-        }
-        
-        // 尝试使用regexSubstitution
-        try {
-          let substitution: string;
-          
-          if (target.includes('$')) {
-            // 包含 $1, $2 等捕获组引用，转换为 Chrome regexSubstitution 格式
-            // Chrome 使用 \1, \2 格式，在 JavaScript 字符串中需要写成 '\\1', '\\2'
-            substitution = target.replace(/\$(\d+)/g, '\\$1');
-          } else {
-            // 分析 source 和 target，尝试自动生成替换模式
-            // 例如: source = "https://g.alicdn.com/m2c-fe/1688-print-order/(.*)/umi.js"
-            //      target = "https://g.alicdn.com/m2c-fe/1688-print-order/1.2.0/umi.js"
-            // 应该生成: "https://g.alicdn.com/m2c-fe/1688-print-order/1.2.0/umi.js"
-            
-            // 检查 source 中是否有捕获组
-            const captureGroups = (source.match(/\([^)]*\)/g) || []).length;
-            
-            if (captureGroups === 0) {
-              // 没有捕获组，直接使用目标URL
-              substitution = target;
-            } else {
-              // 有捕获组但target是固定URL，需要智能匹配
-              // 对于版本号替换这种常见场景，直接使用目标URL
-              substitution = target;
-            }
-          }
-          
-          
-          return {
-            regexSubstitution: substitution,
-          };
-        } catch (error) {
-        }
-      }
-
-      // 相对路径重定向: /api/new -> http://localhost:3000/api/new  
-      if (target.startsWith('/')) {
-        const redirectUrl = `http://localhost:3000${target}`;
-        return { url: redirectUrl };
-      }
-
-      // 域名重定向: example.com -> http://example.com
-      if (!target.includes('://') && target.includes('.') && !target.includes('/')) {
-        const redirectUrl = `http://${target}`;
-        return { url: redirectUrl };
-      }
-
-      // 处理包含协议的目标
-      if (target.includes('://')) {
-        return { url: target };
-      }
-
-      // 默认处理：假设是完整URL或添加http前缀
-      const fallbackUrl = target.startsWith('//') ? `http:${target}` : 
-                         target.includes('://') ? target : `http://${target}`;
-      return { url: fallbackUrl };
-    } catch (error) {
-      console.error(
-        '❌ Failed to convert redirect:',
-        'Source:', source,
-        'Target:', target,
-        'Error:', error instanceof Error ? error.message : String(error),
-        'Code: REDIRECT_CONVERSION_ERROR'
-      );
-      return undefined;
-    }
-  }
-
   private isFileExtension(url: string): boolean {
     const fileExtensions = [
       '.js',
@@ -621,22 +1666,39 @@ export class NetworkService {
   ): Promise<void> {
     try {
 
+      // 只更新发生变化的规则，未变化的规则保持生效，避免重定向出现空档
       const existingRules =
         await chrome.declarativeNetRequest.getDynamicRules();
-      const ruleIdsToRemove = existingRules.map(rule => rule.id);
-
+      const existingById = new Map(
+        existingRules.map(rule => [rule.id, serializeRule(rule)])
+      );
+      const nextIds = new Set(rules.map(rule => rule.id));
+      const addRules = rules.filter(
+        rule => existingById.get(rule.id) !== serializeRule(rule)
+      );
+      const removeRuleIds = existingRules
+        .map(rule => rule.id)
+        .filter(id => !nextIds.has(id))
+        .concat(
+          addRules.map(rule => rule.id).filter(id => existingById.has(id))
+        );
 
-      await chrome.declarativeNetRequest.updateDynamicRules({
-        removeRuleIds: ruleIdsToRemove,
-        addRules: rules,
-      });
+      if (addRules.length > 0 || removeRuleIds.length > 0) {
+        await chrome.declarativeNetRequest.updateDynamicRules({
+          removeRuleIds,
+          addRules,
+        });
+      }
 
 
       // 显示规则转换过程中的错误信息
       if (this.ruleErrors.length > 0) {
         console.group('⚠️ Rule Conversion Errors');
         this.ruleErrors.forEach((error, index) => {
-          console.error(`Error ${index + 1} (${error.type}):`, error.error);
+          console.error(
+            `Error ${index + 1} (${error.type}, group: ${error.group?.groupName ?? '-'}):`,
+            error.error
+          );
           console.log('Failed rule:', error.rule);
         });
         console.groupEnd();
@@ -644,9 +1706,8 @@ export class NetworkService {
         // 发送错误信息到前端页面
         this.injectErrorsToActiveTabs();
       }
-
-      const newRules = await chrome.declarativeNetRequest.getDynamicRules();
     } catch (error) {
+      this.applyError = error instanceof Error ? error.message : String(error);
       console.error(
         '❌ Failed to apply declarative rules:',
         'Rules count:',
@@ -708,6 +1769,14 @@ export class NetworkService {
   }
 
   private async clearAllRules(): Promise<void> {
+    this.ruleErrors = [];
+    this.droppedGroups = [];
+    this.applyError = undefined;
+    this.reflectCorsRules = [];
+    this.compileReflectMatchers();
+    await this.pruneReflectedCorsRules();
+    await this.applyTabRules([]);
+
     try {
       const existingRules =
         await chrome.declarativeNetRequest.getDynamicRules();
@@ -723,44 +1792,150 @@ export class NetworkService {
     }
   }
 
-  setupNetworkLogging(globalEnabled: boolean, groups: GroupRuleVo[]): void {
-    if (typeof chrome === 'undefined' || !chrome.webRequest) return;
-
-
-    // 移除旧的监听器
-    if (this.beforeRequestListener) {
-      chrome.webRequest.onBeforeRequest.removeListener(this.beforeRequestListener);
-    }
-    if (this.completedListener) {
-      chrome.webRequest.onCompleted.removeListener(this.completedListener);
+  /**
+   * 注册 webRequest 监听器。需要在 Service Worker 顶层同步调用，
+   * 冷启动唤醒后的第一个请求事件也能送达；监听器首次触发时从 storage.session 恢复规则状态
+   */
+  registerListeners(): void {
+    if (
+      typeof chrome === 'undefined' ||
+      !chrome.webRequest ||
+      this.beforeRequestListener
+    ) {
+      return;
     }
 
-    // 存储当前的规则状态
-    this.currentGlobalEnabled = globalEnabled;
-    this.currentGroups = groups;
+    // 未打包加载时浏览器直接上报实际命中的规则，此时不再用 webRequest 重新匹配
+    const onRuleMatchedDebug = chrome.declarativeNetRequest?.onRuleMatchedDebug;
+    if (onRuleMatchedDebug) {
+      this.ruleMatchedListener = info => {
+        this.restoreState().then(() => this.logMatchedRule(info));
+      };
+      onRuleMatchedDebug.addListener(this.ruleMatchedListener);
+    }
 
-    // 创建新的监听器
     this.beforeRequestListener = (details: any) => {
-      this.logProxyHit(details, this.currentGlobalEnabled, this.currentGroups);
+      this.restoreState().then(() => {
+        this.reflectCorsOrigin(details);
+        if (!this.ruleMatchedListener) {
+          this.logProxyHit(
+            details,
+            this.currentGlobalEnabled,
+            this.currentGroups
+          );
+        }
+      });
       return undefined;
     };
 
     this.completedListener = (details: any) => {
-      this.logRequestCompleted(details, this.currentGlobalEnabled, this.currentGroups);
+      this.restoreState().then(() => {
+        this.logRequestCompleted(
+          details,
+          this.currentGlobalEnabled,
+          this.currentGroups
+        );
+      });
     };
 
-    // 添加新的监听器
     chrome.webRequest.onBeforeRequest.addListener(
       this.beforeRequestListener,
       { urls: ['<all_urls>'] },
       ['requestBody']
     );
+    chrome.webRequest.onCompleted.addListener(this.completedListener, {
+      urls: ['<all_urls>'],
+    });
+  }
 
-    chrome.webRequest.onCompleted.addListener(
-      this.completedListener,
-      { urls: ['<all_urls>'] }
-    );
-    
+  setupNetworkLogging(globalEnabled: boolean, groups: GroupRuleVo[]): void {
+    // 存储当前的规则状态
+    this.currentGlobalEnabled = globalEnabled;
+    this.currentGroups = groups;
+    this.hasLiveState = true;
+    this.persistState();
+
+    this.registerListeners();
+  }
+
+  /**
+   * 唤醒后首次使用规则状态时从 storage.session 恢复，只恢复一次
+   */
+  private restoreState(): Promise<void> {
+    if (this.hasLiveState) {
+      return Promise.resolve();
+    }
+    if (!this.stateRestore) {
+      this.stateRestore = this.loadSessionState();
+    }
+    return this.stateRestore;
+  }
+
+  private async loadSessionState(): Promise<void> {
+    if (typeof chrome === 'undefined' || !chrome.storage?.session) {
+      return;
+    }
+
+    try {
+      const { [SESSION_STATE_KEY]: state } =
+        await chrome.storage.session.get(SESSION_STATE_KEY);
+      // 恢复期间规则已重新生成时以内存中的状态为准
+      if (!state || this.hasLiveState) {
+        return;
+      }
+
+      const restored = state as NetworkSessionState;
+      this.currentGlobalEnabled = restored.globalEnabled;
+      this.currentGroups = restored.groups;
+      this.ruleMapping = new Map(restored.ruleMapping);
+      this.reflectCorsRules = restored.reflectCorsRules;
+      this.compileReflectMatchers();
+      this.reflectedOrigins = new Map(restored.reflectedOrigins);
+      this.skippedProxyRules = new Set(restored.skippedProxyRules ?? []);
+      this.ruleContext = restored.ruleContext ?? {};
+      this.tabGroups = restored.tabGroups ?? {};
+      this.disabledTabIds = restored.disabledTabIds ?? [];
+      console.log(
+        '♻️ Network state restored from session storage:',
+        JSON.stringify({
+          groups: restored.groups.length,
+          rules: restored.ruleMapping.length,
+        })
+      );
+    } catch (error) {
+      console.error(
+        '❌ Failed to restore network state:',
+        error instanceof Error ? error.message : String(error),
+        'Code: SESSION_STATE_ERROR'
+      );
+    }
+  }
+
+  private async persistState(): Promise<void> {
+    if (typeof chrome === 'undefined' || !chrome.storage?.session) {
+      return;
+    }
+
+    const state: NetworkSessionState = {
+      globalEnabled: this.currentGlobalEnabled,
+      groups: this.currentGroups,
+      ruleMapping: [...this.ruleMapping],
+      reflectCorsRules: this.reflectCorsRules,
+      reflectedOrigins: [...this.reflectedOrigins],
+      skippedProxyRules: [...this.skippedProxyRules],
+      ruleContext: this.ruleContext,
+      tabGroups: this.tabGroups,
+      disabledTabIds: this.disabledTabIds,
+    };
+    try {
+      await chrome.storage.session.set({ [SESSION_STATE_KEY]: state });
+    } catch (error) {
+      console.error(
+        '❌ Failed to persist network state:',
+        error instanceof Error ? error.message : String(error),
+        'Code: SESSION_STATE_ERROR'
+      );
+    }
   }
 
   private logProxyHit(
@@ -772,70 +1947,128 @@ export class NetworkService {
       return;
     }
 
-    const enabledGroups = groups.filter(group => group.enabled);
-    if (enabledGroups.length === 0) {
+    // 只上报实际生效（排序最靠前）的规则
+    const matched = this.findMatchedRule(details, groups);
+    if (!matched || !details.tabId || details.tabId === -1) {
       return;
     }
 
+    const { rule, compiled } = matched;
+    this.sendHitMessage(details, {
+      ruleName: rule.name,
+      targetUrl:
+        rule.action === 'block'
+          ? undefined
+          : compiled.getTargetUrl(details.url),
+    });
+  }
 
-    let hasMatch = false;
-    enabledGroups.forEach(group => {
-      const validation = validateJsonFormat(group.ruleText);
-      if (!validation.isValid) return;
-
-      try {
-        const parsedRules = parseRuleGroup(group.ruleText);
-        const proxyRules = parsedRules.proxy || [];
+  /**
+   * 根据浏览器上报的命中规则发送提示，命中信息通过规则映射还原为源规则
+   */
+  private logMatchedRule(
+    info: chrome.declarativeNetRequest.MatchedRuleInfoDebug
+  ): void {
+    const { request } = info;
+    const entry = this.getMappedRule(info.rule);
+    if (!entry || entry.action === 'allow' || request.tabId === -1) {
+      return;
+    }
 
-        proxyRules.forEach((rule, index) => {
-          if (!rule.enabled) {
-            return;
-          }
+    this.sendHitMessage(request, {
+      ruleName: entry.name,
+      targetUrl:
+        entry.action === 'block'
+          ? undefined
+          : (this.getMappedMatcher(entry)?.getTargetUrl(request.url) ??
+            request.url),
+    });
+  }
 
-          const isMatched = this.isUrlMatched(details.url, rule.source);
-          if (isMatched) {
-            hasMatch = true;
-            const targetUrl = this.getTargetUrl(
-              details.url,
-              rule.source,
-              rule.target
-            );
+  /**
+   * 在规则组缓存中按规则 ID 查找映射对应的已编译规则，规则组未修改时不重新编译
+   */
+  private getMappedMatcher(entry: RuleMappingEntry): CompiledRule | undefined {
+    const group = this.currentGroups.find(({ id }) => id === entry.groupId);
+    return group
+      ? this.getGroupMatchers(group).find(({ rule }) => rule.id === entry.id)
+          ?.compiled
+      : undefined;
+  }
 
+  /**
+   * 查询浏览器记录的命中规则（最近五分钟），还原为源规则信息
+   */
+  async getMatchedRules(tabId?: number): Promise<RuleHitInfo[]> {
+    await this.restoreState();
+    if (!chrome.declarativeNetRequest.getMatchedRules) {
+      return [];
+    }
 
-            if (details.tabId && details.tabId !== -1) {
-              chrome.tabs
-                .sendMessage(details.tabId, {
-                  type: 'PROXY_HIT',
-                  data: {
-                    originalUrl: details.url,
-                    targetUrl: targetUrl,
-                    ruleName: rule.name || '未命名规则',
-                    requestType: details.type,
-                    method: details.method || 'GET',
-                    timestamp: Date.now(),
-                  },
-                })
-                .catch(() => {
-                  // 忽略错误，可能没有content script
-                });
-            }
-          } else {
-          }
-        });
-      } catch (error) {
-        console.error(
-          'Failed to parse rules for group:',
-          'Group name:',
-          group.groupName,
-          'Error:',
-          error instanceof Error ? error.message : String(error),
-          'Code: RULE_PARSE_ERROR'
-        );
+    const { rulesMatchedInfo } =
+      await chrome.declarativeNetRequest.getMatchedRules(
+        tabId === undefined ? {} : { tabId }
+      );
+    return rulesMatchedInfo.flatMap(info => {
+      const entry = this.getMappedRule(info.rule);
+      if (!entry || entry.action === 'allow') {
+        return [];
       }
+
+      return [
+        {
+          ruleId: info.rule.ruleId,
+          tabId: info.tabId,
+          timeStamp: info.timeStamp,
+          action: entry.action ?? 'redirect',
+          ruleName: entry.name,
+          source: entry.source,
+          target: entry.target || undefined,
+          groupId: entry.groupId,
+          groupName: this.currentGroups.find(
+            group => group.id === entry.groupId
+          )?.groupName,
+        },
+      ];
     });
+  }
 
-    if (!hasMatch) {
-    }
+  /**
+   * 只有代理、拦截规则有映射（全局生效的在动态规则集，限定标签页的在会话规则集），
+   * CORS 等规则返回 undefined
+   */
+  private getMappedRule(
+    rule: chrome.declarativeNetRequest.MatchedRule
+  ): RuleMappingEntry | undefined {
+    const entry = this.ruleMapping.get(rule.ruleId);
+    const rulesetId = entry?.tabScoped
+      ? (chrome.declarativeNetRequest.SESSION_RULESET_ID ?? '_session')
+      : (chrome.declarativeNetRequest.DYNAMIC_RULESET_ID ?? '_dynamic');
+    return rule.rulesetId === rulesetId ? entry : undefined;
+  }
+
+  /**
+   * 向请求所在标签页发送命中提示，未提供目标地址时按拦截处理
+   */
+  private sendHitMessage(
+    details: { url: string; tabId: number; type?: string; method?: string },
+    hit: { ruleName?: string; targetUrl?: string }
+  ): void {
+    const data = {
+      originalUrl: details.url,
+      ruleName: hit.ruleName || '未命名规则',
+      requestType: details.type,
+      method: details.method?.toUpperCase() || 'GET',
+      timestamp: Date.now(),
+    };
+    const message =
+      hit.targetUrl === undefined
+        ? { type: 'PROXY_BLOCKED', data }
+        : { type: 'PROXY_HIT', data: { ...data, targetUrl: hit.targetUrl } };
+
+    chrome.tabs.sendMessage(details.tabId, message).catch(() => {
+      // 忽略错误，可能没有content script
+    });
   }
 
   private logRequestCompleted(
@@ -847,37 +2080,9 @@ export class NetworkService {
       details.statusCode &&
       (details.statusCode < 200 || details.statusCode >= 400)
     ) {
-      const enabledGroups = groups.filter(group => group.enabled);
-      if (enabledGroups.length === 0) return;
-
-      let hasMatchedRule = false;
-      enabledGroups.forEach(group => {
-        const validation = validateJsonFormat(group.ruleText);
-        if (!validation.isValid) return;
-
-        try {
-          const parsedRules = parseRuleGroup(group.ruleText);
-          const proxyRules = parsedRules.proxy || [];
-
-          const matchedRule = proxyRules.find(rule => {
-            if (!rule.enabled) return false;
-            return this.isUrlMatched(details.url, rule.source);
-          });
-
-          if (matchedRule) {
-            hasMatchedRule = true;
-          }
-        } catch (error) {
-          console.error(
-            'Failed to check rules for group:',
-            'Group name:',
-            group.groupName,
-            'Error:',
-            error instanceof Error ? error.message : String(error),
-            'Code: RULE_CHECK_ERROR'
-          );
-        }
-      });
+      // 被拦截的请求不会完成，只关心生效的是重定向规则
+      const matched = this.findMatchedRule(details, groups);
+      const hasMatchedRule = !!matched && matched.rule.action !== 'block';
 
       if (hasMatchedRule) {
         console.warn(
@@ -887,96 +2092,141 @@ export class NetworkService {
     }
   }
 
-  private isUrlMatched(url: string, pattern: string): boolean {
-    try {
-      
-      // 检查是否为正则表达式模式
-      const isRegexPattern =
-        pattern.includes('(') ||
-        pattern.includes('.*') ||
-        pattern.includes('$') ||
-        pattern.includes('^') ||
-        pattern.includes('[') ||
-        pattern.includes(']') ||
-        pattern.includes('+') ||
-        pattern.includes('?') ||
-        pattern.includes('|');
-
-      if (isRegexPattern) {
-        // 正则表达式匹配
-        try {
-          const regex = new RegExp(pattern, 'i');
-          const result = regex.test(url);
-          return result;
-        } catch (error) {
-          console.error(
-            '❌ Invalid regex pattern:',
-            'Pattern:',
-            pattern,
-            'Error:',
-            error instanceof Error ? error.message : String(error),
-            'Code: REGEX_ERROR'
-          );
-          return false;
-        }
-      } else {
-        // 字符串匹配
-        const result = url.indexOf(pattern) > -1;
-        return result;
+  /**
+   * 按 declarativeNetRequest 的语义检查请求是否满足规则的附加条件
+   */
+  private isRuleConditionMatched(
+    details: {
+      url: string;
+      type?: string;
+      method?: string;
+      initiator?: string;
+    },
+    rule: ProxyRule
+  ): boolean {
+    if (!this.isResourceTypeMatched(details.type, rule)) {
+      return false;
+    }
+
+    if (rule.methods?.length) {
+      // 无法识别的请求方法在 declarativeNetRequest 中归为 other
+      const method = (details.method || 'get').toLowerCase();
+      const requestMethod = (REQUEST_METHODS as readonly string[]).includes(
+        method
+      )
+        ? method
+        : 'other';
+      if (!rule.methods.some(m => m === requestMethod)) {
+        return false;
       }
-    } catch (error) {
-      console.error(
-        '❌ URL matching failed:',
-        'URL:',
-        url,
-        'Pattern:',
-        pattern,
-        'Error:',
-        error instanceof Error ? error.message : String(error),
-        'Code: URL_MATCH_ERROR'
-      );
+    }
+
+    const initiatorHost = this.getHostname(details.initiator);
+    if (rule.initiatorDomains?.length) {
+      if (
+        !initiatorHost ||
+        !this.isDomainMatched(initiatorHost, rule.initiatorDomains)
+      ) {
+        return false;
+      }
+    }
+    if (
+      rule.excludedInitiatorDomains?.length &&
+      initiatorHost &&
+      this.isDomainMatched(initiatorHost, rule.excludedInitiatorDomains)
+    ) {
+      return false;
+    }
+
+    const requestHost = this.getHostname(details.url);
+    if (
+      rule.excludedRequestDomains?.length &&
+      requestHost &&
+      this.isDomainMatched(requestHost, rule.excludedRequestDomains)
+    ) {
       return false;
     }
+
+    return true;
+  }
+
+  /**
+   * 域名匹配：与 declarativeNetRequest 一致，同时匹配子域名
+   */
+  private isDomainMatched(hostname: string, domains: string[]): boolean {
+    const host = hostname.toLowerCase();
+    return domains.some(
+      domain => host === domain || host.endsWith(`.${domain}`)
+    );
   }
 
-  private getTargetUrl(
-    originalUrl: string,
-    sourcePattern: string,
-    target: string
-  ): string {
+  private getHostname(url: string | undefined): string | undefined {
+    if (!url || url === 'null') {
+      return undefined;
+    }
     try {
-      
-      // 检查是否为正则表达式模式
-      const isRegexPattern =
-        sourcePattern.includes('(') ||
-        sourcePattern.includes('.*') ||
-        sourcePattern.includes('$') ||
-        sourcePattern.includes('^') ||
-        sourcePattern.includes('[') ||
-        sourcePattern.includes(']') ||
-        sourcePattern.includes('+') ||
-        sourcePattern.includes('?') ||
-        sourcePattern.includes('|');
-
-      if (isRegexPattern) {
-        try {
-          const regex = new RegExp(sourcePattern, 'i');
-          // JavaScript 正则替换语法：$1, $2, ... 对应捕获组
-          const result = originalUrl.replace(regex, target);
-          return result;
-        } catch (error) {
-          console.error('❌ Error applying regex replacement:', error);
-          return originalUrl;
-        }
-      } else {
-        // 字符串替换
-        const result = originalUrl.split(sourcePattern).join(target);
-        return result;
+      return new URL(url).hostname;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 检查请求的资源类型是否在规则的生效范围内
+   */
+  private isResourceTypeMatched(
+    requestType: string | undefined,
+    rule: ProxyRule
+  ): boolean {
+    // 与 declarativeNetRequest 保持一致，未知类型按 other 处理
+    const resourceType = requestType || 'other';
+    return this.getResourceTypes(rule).some(type => type === resourceType);
+  }
+
+  /**
+   * 找出请求实际命中的规则（排序最靠前的匹配项），只遍历一次预编译的规则。
+   * 命中排除条件时与 allow 规则一致，不再交给后面的规则处理。
+   * 停用的规则组也参与排序，仅在请求所在标签页单独启用时匹配
+   */
+  private getProxyRuleKey(group: GroupRuleVo, rule: ProxyRule): string {
+    return `${group.id}|${rule.id}`;
+  }
+
+  private findMatchedRule(
+    details: {
+      url: string;
+      type?: string;
+      method?: string;
+      initiator?: string;
+      tabId?: number;
+    },
+    groups: GroupRuleVo[]
+  ): { rule: ProxyRule; compiled: CompiledRule } | undefined {
+    if (this.requestMatchers?.groups !== groups) {
+      this.requestMatchers = {
+        groups,
+        rules: this.getOrderedProxyRules(groups).filter(
+          ({ rule, group }) =>
+            !this.skippedProxyRules.has(this.getProxyRuleKey(group, rule))
+        ),
+      };
+    }
+
+    for (const { rule, group, compiled } of this.requestMatchers.rules) {
+      if (!compiled || !this.isGroupActive(group, details.tabId)) {
+        continue;
       }
-    } catch (error) {
-      console.error('❌ Target URL generation failed:', error);
-      return target;
+      // 先用预编译的正则筛选，只有 URL 命中时才检查资源类型、域名等附加条件
+      const excluded = compiled.isExcluded(details.url);
+      if (!excluded && !compiled.matches(details.url)) {
+        continue;
+      }
+      if (!this.isRuleConditionMatched(details, rule)) {
+        continue;
+      }
+      return excluded ? undefined : { rule, compiled };
     }
+    return undefined;
   }
 }
 
@@ -0,0 +1,69 @@
+/**
+ * 串行、合并执行的更新调度器
+ *
+ * - 防抖：短时间内的多次调度合并为一次执行
+ * - 单飞：同一时刻最多只有一次执行，执行期间的调度排在其后
+ * - 最新状态优先：任务在真正开始时才读取状态，排队中的调度共享同一次执行
+ *
+ * schedule() 返回的 Promise 在包含本次调度的那次执行完成后才结束
+ */
+export class UpdateScheduler {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private pending:
+    | {
+        promise: Promise<void>;
+        resolve: () => void;
+        reject: (error: unknown) => void;
+      }
+    | undefined;
+  private queued = false;
+  private running: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly task: () => Promise<void>,
+    private readonly delay = 50
+  ) {}
+
+  schedule(): Promise<void> {
+    if (!this.pending) {
+      let resolve!: () => void;
+      let reject!: (error: unknown) => void;
+      const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      this.pending = { promise, resolve, reject };
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), this.delay);
+    return this.pending.promise;
+  }
+
+  private flush(): void {
+    this.timer = undefined;
+    // 已有一次执行在排队，它开始时会带上本批调度
+    if (this.queued) {
+      return;
+    }
+
+    this.queued = true;
+    this.running = this.running.then(async () => {
+      this.queued = false;
+      const batch = this.pending;
+      this.pending = undefined;
+      if (!batch) {
+        return;
+      }
+
+      try {
+        await this.task();
+        batch.resolve();
+      } catch (error) {
+        batch.reject(error);
+      }
+    });
+  }
+}
@@ -1,5 +1,8 @@
 import { vi } from 'vitest';
 
+// storage.session 的数据，Service Worker 重启后仍然保留
+const sessionData: Record<string, any> = {};
+
 // Chrome Extension API 模拟
 export const mockChrome = {
   runtime: {
@@ -24,6 +27,15 @@ export const mockChrome = {
       remove: vi.fn(),
       clear: vi.fn()
     },
+    session: {
+      get: vi.fn((key: string) =>
+        Promise.resolve(key in sessionData ? { [key]: sessionData[key] } : {})
+      ),
+      set: vi.fn((data: Record<string, any>) => {
+        Object.assign(sessionData, structuredClone(data));
+        return Promise.resolve();
+      })
+    },
     onChanged: {
       addListener: vi.fn(),
       removeListener: vi.fn()
@@ -80,14 +92,30 @@ export const mockChrome = {
   tabs: {
     create: vi.fn(),
     sendMessage: vi.fn(),
-    query: vi.fn()
+    query: vi.fn(),
+    update: vi.fn(() => Promise.resolve()),
+    onActivated: {
+      addListener: vi.fn()
+    },
+    onUpdated: {
+      addListener: vi.fn()
+    },
+    onRemoved: {
+      addListener: vi.fn()
+    }
   },
   
   declarativeNetRequest: {
     getDynamicRules: vi.fn(() => Promise.resolve([])),
     updateDynamicRules: vi.fn(() => Promise.resolve()),
+    getSessionRules: vi.fn(() => Promise.resolve([])),
+    updateSessionRules: vi.fn(() => Promise.resolve()),
+    isRegexSupported: vi.fn(() => Promise.resolve({ isSupported: true })),
+    getMatchedRules: vi.fn(() => Promise.resolve({ rulesMatchedInfo: [] })),
     RuleActionType: {
       REDIRECT: 'redirect',
+      BLOCK: 'block',
+      ALLOW: 'allow',
       MODIFY_HEADERS: 'modifyHeaders'
     },
     ResourceType: {
@@ -105,16 +133,19 @@ export const mockChrome = {
     },
     HeaderOperation: {
       SET: 'set',
+      APPEND: 'append',
       REMOVE: 'remove'
     }
   },
   
   webRequest: {
     onBeforeRequest: {
-      addListener: vi.fn()
+      addListener: vi.fn(),
+      removeListener: vi.fn()
     },
     onCompleted: {
-      addListener: vi.fn()
+      addListener: vi.fn(),
+      removeListener: vi.fn()
     }
   },
   
@@ -128,7 +159,8 @@ export const mockBrowser = {
   runtime: mockChrome.runtime,
   storage: mockChrome.storage,
   action: mockChrome.action,
-  tabs: mockChrome.tabs
+  tabs: mockChrome.tabs,
+  webRequest: mockChrome.webRequest
 };
 
 // 设置全局 Chrome 和 Browser 对象
@@ -138,6 +170,8 @@ export function setupChromeEnvironment() {
   // @ts-ignore
   global.browser = mockBrowser;
   
+  Object.keys(sessionData).forEach(key => delete sessionData[key]);
+
   // 重置所有 mock
   Object.values(mockChrome.runtime.onMessage).forEach(fn => {
     if (typeof fn === 'function' && 'mockClear' in fn) {
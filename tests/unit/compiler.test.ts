@@ -0,0 +1,578 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CompilableRule,
+  CompiledRule,
+  compileRule,
+  globToRegex,
+  inferRuleType,
+  urlFilterToRegExp,
+} from '../../entrypoints/utils/compiler';
+
+/**
+ * 按 declarativeNetRequest 的语义执行编译结果，用于和 JS 端匹配结果对照
+ */
+const applyDeclarativeRule = (
+  compiled: CompiledRule,
+  url: string
+): { matched: boolean; url: string } => {
+  const { urlFilter, regexFilter, isUrlFilterCaseSensitive } =
+    compiled.condition;
+  const flags = isUrlFilterCaseSensitive ? '' : 'i';
+
+  // 排除条件对应优先级更高的 allow 规则
+  if (
+    compiled.exclusions.some(exclusion =>
+      new RegExp(exclusion, flags).test(url)
+    )
+  ) {
+    return { matched: false, url };
+  }
+
+  if (regexFilter) {
+    const match = new RegExp(regexFilter, flags).exec(url);
+    if (!match) {
+      return { matched: false, url };
+    }
+    const substitution = compiled.redirect?.regexSubstitution;
+    if (substitution === undefined) {
+      return { matched: true, url: compiled.redirect?.url ?? url };
+    }
+    // regexSubstitution 替换第一个匹配片段，\0-\9 引用捕获组，\\ 表示反斜杠
+    const replacement = substitution.replace(/\\(\\|\d)/g, (_, token) =>
+      token === '\\' ? '\\' : (match[Number(token)] ?? '')
+    );
+    return {
+      matched: true,
+      url:
+        url.slice(0, match.index) +
+        replacement +
+        url.slice(match.index + match[0].length),
+    };
+  }
+
+  // urlFilter：| 锚定首尾，* 通配，^ 分隔符
+  const pattern = urlFilter!
+    .replace(/[.+?${}()[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\^/g, '(?:[^a-zA-Z0-9_.%-]|$)')
+    .replace(/^\|/, '^')
+    .replace(/\|$/, '$');
+  const matched = new RegExp(pattern, flags).test(url);
+  return {
+    matched,
+    url: matched ? (compiled.redirect?.url ?? url) : url,
+  };
+};
+
+/**
+ * 规则编译器单元测试
+ */
+describe('RuleCompiler', () => {
+  describe('两条路径结果一致', () => {
+    const urls = [
+      'https://api.example.com/users?id=1',
+      'https://API.Example.com/Users',
+      'https://cdn.example.com/static/v2/app.abc123.js',
+      'https://cdn.example.com/app.js?v=1.2.0',
+      'https://g.alicdn.com/m2c-fe/1688-print-order/1.0.3/umi.js',
+      'https://www.example.com/',
+      'http://localhost:8080/api/old/list',
+    ];
+
+    const rules: Array<{ name: string; rule: CompilableRule }> = [
+      {
+        name: '字符串替换片段',
+        rule: { source: 'api.example.com', target: 'localhost:3000' },
+      },
+      {
+        name: '字符串重定向到绝对地址',
+        rule: {
+          source: 'https://cdn.example.com/app.js',
+          target: 'http://localhost:3000/app.js',
+        },
+      },
+      {
+        name: '区分大小写的字符串',
+        rule: {
+          source: 'API.Example.com',
+          target: 'https://mock.test/',
+          caseSensitive: true,
+        },
+      },
+      {
+        name: '锚定的字符串',
+        rule: {
+          source: 'https://www.example.com/',
+          target: 'https://www.example.org/',
+          anchored: true,
+        },
+      },
+      {
+        name: '相对路径目标',
+        rule: { source: '/api/old/', target: '/api/new/', type: 'string' },
+      },
+      {
+        name: '正则捕获组替换',
+        rule: {
+          source: 'https://g.alicdn.com/m2c-fe/1688-print-order/([0-9.]*)/(.*)',
+          target: 'https://g.alicdn.com/m2c-fe/1688-print-order/1.2.0/$2',
+        },
+      },
+      {
+        name: '命名捕获组',
+        rule: {
+          source:
+            'https://g.alicdn.com/(?<app>[^/]+)/1688-print-order/(?<ver>[0-9.]*)/(.*)',
+          target: 'http://localhost:3000/$<app>/$<ver>/$3',
+        },
+      },
+      {
+        name: '正则替换域名前缀',
+        rule: { source: '(.*).example.com', target: 'http://localhost:8080' },
+      },
+      {
+        name: '锚定的正则',
+        rule: {
+          source: 'https://(api|www).example.com/',
+          target: 'https://$1.example.org/',
+          anchored: true,
+        },
+      },
+      {
+        name: 'glob',
+        rule: {
+          source: 'https://cdn.example.com/**/app.*.js',
+          target: 'http://localhost:3000/$1/app.js',
+          type: 'glob',
+        },
+      },
+      {
+        name: '拦截规则',
+        rule: { source: '(.*)/users', target: '', action: 'block' },
+      },
+    ];
+
+    rules.forEach(({ name, rule }) => {
+      it(`${name}：命中判断与重定向地址一致`, () => {
+        const compiled = compileRule(rule);
+
+        urls.forEach(url => {
+          const dnr = applyDeclarativeRule(compiled, url);
+          expect(compiled.matches(url), url).toBe(dnr.matched);
+          if (dnr.matched && rule.action !== 'block') {
+            expect(compiled.getTargetUrl(url), url).toBe(dnr.url);
+          }
+        });
+      });
+    });
+  });
+
+  describe('编译结果', () => {
+    it('字符串规则只替换第一个命中片段', () => {
+      const compiled = compileRule({ source: 'a.com', target: 'b.com' });
+
+      expect(compiled.getTargetUrl('https://a.com/?from=a.com')).toBe(
+        'https://b.com/?from=a.com'
+      );
+    });
+
+    it('字符串规则的目标地址按字面量替换', () => {
+      const compiled = compileRule({ source: 'a.com', target: 'b.com/$1' });
+
+      expect(compiled.redirect?.regexSubstitution).toBe('b.com/$1');
+      expect(compiled.getTargetUrl('https://a.com/x')).toBe(
+        'https://b.com/$1/x'
+      );
+    });
+
+    it('默认不区分大小写，并显式写入条件', () => {
+      const compiled = compileRule({
+        source: 'https://a.com/x.js',
+        target: '',
+        action: 'block',
+      });
+
+      expect(compiled.condition).toEqual({
+        urlFilter: 'https://a.com/x.js',
+        isUrlFilterCaseSensitive: false,
+      });
+      expect(compiled.matches('https://A.com/X.js')).toBe(true);
+    });
+
+    it('选项参数作为默认值，规则自身配置优先', () => {
+      const rule = { source: 'A.com', target: 'https://b.com/' };
+
+      expect(
+        compileRule(rule, { caseSensitive: true }).matches('https://a.com/')
+      ).toBe(false);
+      expect(
+        compileRule(
+          { ...rule, caseSensitive: false },
+          { caseSensitive: true }
+        ).matches('https://a.com/')
+      ).toBe(true);
+    });
+
+    it('锚定的字符串规则使用带 | 的 urlFilter', () => {
+      const compiled = compileRule({
+        source: 'https://a.com/',
+        target: 'https://b.com/',
+        anchored: true,
+      });
+
+      expect(compiled.condition.urlFilter).toBe('|https://a.com/|');
+      expect(compiled.matches('https://a.com/')).toBe(true);
+      expect(compiled.matches('https://a.com/x')).toBe(false);
+    });
+
+    it('包含 urlFilter 特殊字符的字符串规则改用 regexFilter', () => {
+      const compiled = compileRule({
+        source: 'https://a.com/*',
+        target: '',
+        action: 'block',
+      });
+
+      expect(compiled.condition.urlFilter).toBeUndefined();
+      expect(compiled.condition.regexFilter).toBe('https://a\\.com/\\*');
+      expect(compiled.matches('https://a.com/x')).toBe(false);
+    });
+
+    it('正则目标中的 $&、$$ 应转换为 regexSubstitution 语法', () => {
+      const compiled = compileRule({
+        source: 'v([0-9]+)',
+        target: '$&-$$1',
+        type: 'regex',
+      });
+
+      expect(compiled.redirect?.regexSubstitution).toBe('\\0-$1');
+    });
+
+    it('命名捕获组转换为序号引用', () => {
+      const compiled = compileRule({
+        source: 'https://(?<host>[a-z]+).com/(?:v1|v2)/(?P<path>.*)',
+        target: 'https://$<host>.org/$<path>?from=$<host>',
+      });
+
+      expect(compiled.condition.regexFilter).toBe(
+        'https://([a-z]+).com/(?:v1|v2)/(.*)'
+      );
+      expect(compiled.redirect?.regexSubstitution).toBe(
+        'https://\\1.org/\\2?from=\\1'
+      );
+      expect(compiled.getTargetUrl('https://a.com/v1/x/y')).toBe(
+        'https://a.org/x/y?from=a'
+      );
+    });
+
+    it('引用的捕获组后紧跟数字时不会与两位数序号混淆', () => {
+      const compiled = compileRule({
+        source: '(?<major>\\d)\\.x',
+        target: '$<major>0.$10',
+      });
+
+      expect(compiled.redirect?.regexSubstitution).toBe('\\10.\\10');
+      expect(compiled.getTargetUrl('v2.x')).toBe('v20.20');
+    });
+
+    it('引用不存在或超出 \\9 的捕获组应报错', () => {
+      const tenGroups = 'https://a.com/' + '(\\w)'.repeat(10);
+
+      expect(() =>
+        compileRule({ source: '(?<a>.*)', target: 'https://b.com/$<b>' })
+      ).toThrow(/unknown capture group/);
+      expect(() =>
+        compileRule({ source: 'https://a.com/(.*)', target: '/$2' })
+      ).toThrow(/missing capture group \$2/);
+      expect(() => compileRule({ source: tenGroups, target: '/$10' })).toThrow(
+        /beyond \$9/
+      );
+      expect(() =>
+        compileRule({ source: '(?<a>x)(?<a>y)', target: '/$<a>' })
+      ).toThrow(/Duplicate/);
+      expect(() =>
+        compileRule({ source: '(?<a>x)\\k<a>', target: '/$<a>' })
+      ).toThrow(/backreferences/);
+    });
+
+    it('不支持的正则语法应报错而不是退化匹配', () => {
+      expect(() =>
+        compileRule({ source: '(a)\\1', target: 'https://b.com/' })
+      ).toThrow(/backreferences/);
+    });
+
+    it('无效的正则应报错', () => {
+      expect(() =>
+        compileRule({ source: '([a-z', target: 'https://b.com/' })
+      ).toThrow(/Invalid regex/);
+    });
+
+    it('未展开的变量应报错', () => {
+      expect(() =>
+        compileRule({ source: 'a.com', target: '${DEV_HOST}/a' })
+      ).toThrow('Undefined variable: ${DEV_HOST}');
+    });
+
+    it('源地址为空时应报错', () => {
+      expect(() =>
+        compileRule({ source: '', target: 'https://b.com/' })
+      ).toThrow();
+    });
+  });
+
+  describe('地址改写', () => {
+    it('transform 按组成部分改写地址，只匹配源地址', () => {
+      const compiled = compileRule({
+        source: 'api.example.com',
+        target: '',
+        transform: {
+          scheme: 'http',
+          host: 'localhost',
+          port: '3000',
+          addQueryParams: { mock: '1', name: 'a b' },
+          removeQueryParams: ['token'],
+        },
+      });
+
+      expect(compiled.condition.urlFilter).toBe('api.example.com');
+      expect(compiled.redirect).toEqual({
+        transform: {
+          scheme: 'http',
+          host: 'localhost',
+          port: '3000',
+          queryTransform: {
+            addOrReplaceParams: [
+              { key: 'mock', value: '1' },
+              { key: 'name', value: 'a b' },
+            ],
+            removeParams: ['token'],
+          },
+        },
+      });
+      expect(
+        compiled.getTargetUrl(
+          'https://api.example.com/users?token=x&q=%E4%B8%AD&mock=0#top'
+        )
+      ).toBe('http://localhost:3000/users?q=%E4%B8%AD&mock=1&name=a%20b#top');
+      expect(compiled.getTargetUrl('https://www.example.com/')).toBe(
+        'https://www.example.com/'
+      );
+    });
+
+    it('空端口表示去掉端口，未设置的部分保持不变', () => {
+      const compiled = compileRule({
+        source: 'localhost:8080',
+        target: '',
+        transform: { host: 'dev.example.com', port: '', path: '/v2/' },
+      });
+
+      expect(compiled.getTargetUrl('http://localhost:8080/v1/?a=1')).toBe(
+        'http://dev.example.com/v2/?a=1'
+      );
+    });
+
+    it('transform 规则的排除条件同样生效', () => {
+      const compiled = compileRule({
+        source: '(.*)(?<!\\.json)$',
+        target: '',
+        transform: { host: 'b.com' },
+      });
+
+      expect(compiled.exclusions).toHaveLength(1);
+      expect(compiled.getTargetUrl('https://a.com/x.js')).toBe(
+        'https://b.com/x.js'
+      );
+      expect(compiled.getTargetUrl('https://a.com/x.json')).toBe(
+        'https://a.com/x.json'
+      );
+    });
+
+    it('preserveQuery 重定向到固定地址并保留原查询参数', () => {
+      const compiled = compileRule({
+        source: 'https://cdn.example.com/app.js',
+        target: 'http://localhost:3000/dist/app.js?debug=1',
+        anchored: true,
+        preserveQuery: true,
+      });
+
+      expect(compiled.condition.urlFilter).toBe(
+        '|https://cdn.example.com/app.js|'
+      );
+      expect(compiled.redirect?.transform).toEqual({
+        scheme: 'http',
+        host: 'localhost',
+        port: '3000',
+        path: '/dist/app.js',
+        fragment: '',
+        queryTransform: { addOrReplaceParams: [{ key: 'debug', value: '1' }] },
+      });
+
+      const glob = compileRule({
+        source: 'https://cdn.example.com/**/app.js*',
+        target: 'https://mock.test/app.js',
+        type: 'glob',
+        preserveQuery: true,
+      });
+      expect(
+        glob.getTargetUrl('https://cdn.example.com/v2/app.js?v=1.2.0#a')
+      ).toBe('https://mock.test/app.js?v=1.2.0');
+    });
+
+    it('冲突或无法保留查询参数的配置应报错', () => {
+      expect(() =>
+        compileRule({
+          source: 'a.com',
+          target: 'b.com',
+          transform: { host: 'c.com' },
+        })
+      ).toThrow(/both target and transform/);
+      expect(() =>
+        compileRule({
+          source: 'https://a.com/(.*)',
+          target: 'https://b.com/$1',
+          preserveQuery: true,
+        })
+      ).toThrow(/capture group/);
+      expect(() =>
+        compileRule({
+          source: 'https://a.com/app.js',
+          target: 'b.com/app.js',
+          preserveQuery: true,
+        })
+      ).toThrow(/absolute target/);
+    });
+
+    it('拦截规则忽略 transform', () => {
+      const compiled = compileRule({
+        source: 'a.com',
+        target: '',
+        action: 'block',
+        transform: { host: 'b.com' },
+      });
+
+      expect(compiled.redirect).toBeUndefined();
+    });
+  });
+
+  describe('断言转换', () => {
+    const urls = [
+      'https://a.com/app.js',
+      'https://a.com/data.json',
+      'https://a.com/DATA.JSON',
+      'https://a.com/map.js.map',
+      'https://a.com/api/users',
+      'https://a.com/apix',
+      'https://a.com/static/app.css',
+      'https://b.com/data.json',
+      'https://b.com/app.js',
+    ];
+
+    const sources = [
+      '(.*)(?<!\\.json)$',
+      'https://a.com/(.*)(?<!\\.json|\\.map)$',
+      '^https://a\\.com/.*(?<=\\.js)$',
+      '^https://a.com/(?!api/)(.*)',
+      '^https://a.com/(?!api/|static/).*$',
+      '^https://a.com/(?=api)(.*)',
+    ];
+
+    sources.forEach(source => {
+      it(`${source} 转换后应与原正则语义一致`, () => {
+        const rule = { source, target: 'http://localhost:3000/$&' };
+        const compiled = compileRule(rule);
+        const original = new RegExp(source, 'i');
+
+        expect(compiled.condition.regexFilter).not.toMatch(/\(\?<?[=!]/);
+        urls.forEach(url => {
+          const dnr = applyDeclarativeRule(compiled, url);
+          expect(dnr.matched, url).toBe(original.test(url));
+          expect(compiled.matches(url), url).toBe(original.test(url));
+          if (dnr.matched) {
+            expect(dnr.url, url).toBe(url.replace(original, rule.target));
+          }
+        });
+      });
+    });
+
+    it('负向断言应生成排除条件，正向断言直接改写', () => {
+      expect(
+        compileRule({ source: '(.*)(?<!\\.json)$', target: '/$1' })
+      ).toMatchObject({
+        condition: { regexFilter: '(.*)$' },
+        exclusions: ['.*(?:\\.json)$'],
+      });
+      expect(
+        compileRule({ source: '^https://a.com/(?=api)(.*)', target: '/$1' })
+      ).toMatchObject({
+        condition: { regexFilter: '^https://a.com/((?:api).*)' },
+        exclusions: [],
+      });
+    });
+
+    it('锚定规则的排除条件同样锚定', () => {
+      const compiled = compileRule({
+        source: 'https://a.com/(.*)(?<!\\.json)$',
+        target: '/$1',
+        anchored: true,
+      });
+
+      expect(compiled.exclusions).toEqual([
+        '^(?:https://a.com/.*(?:\\.json)$)$',
+      ]);
+    });
+
+    it('无法精确转换的断言应报错', () => {
+      const sources = [
+        // 先行断言前没有锚定的固定前缀
+        'https://a.com/(?!api)(.*)',
+        // 先行断言后还有其他条件
+        '^https://a.com/(?!api)(.*)\\.js$',
+        // 后行断言不在 URL 结尾
+        '(.*)(?<!\\.json)/x',
+        // 断言内容不是纯文本
+        '(.*)(?<!\\.(json|map))$',
+        // 前缀末尾与断言文本重叠
+        'https://a.com/x.j(.*)(?<!\\.json)$',
+        'json(.*)(?<!\\.json)$',
+        // 多个断言
+        '^https://a.com/(?!api)(.*)(?<!\\.json)$',
+      ];
+
+      sources.forEach(source => {
+        expect(
+          () => compileRule({ source, target: 'https://b.com/' }),
+          source
+        ).toThrow(/lookaround/);
+      });
+    });
+  });
+
+  describe('辅助函数', () => {
+    it('未指定类型时按捕获组推断', () => {
+      expect(inferRuleType('(.*).example.com')).toBe('regex');
+      expect(inferRuleType('https://a.com/x.js?v=1')).toBe('string');
+    });
+
+    it('glob 应转换为锚定正则', () => {
+      expect(globToRegex('https://a.com/**/*.js?')).toBe(
+        '^https://a\\.com/(.*)/([^/]*)\\.js[^/]$'
+      );
+    });
+
+    it('urlFilter 应按 declarativeNetRequest 语义转换为正则', () => {
+      const host = urlFilterToRegExp('*://api.example.com/*');
+      expect(host.test('https://API.example.com/user')).toBe(true);
+      expect(host.test('https://evil.com/?next=api.example.com')).toBe(false);
+
+      const domain = urlFilterToRegExp('||example.com^');
+      expect(domain.test('https://api.example.com/x')).toBe(true);
+      expect(domain.test('https://example.com')).toBe(true);
+      expect(domain.test('https://notexample.com/x')).toBe(false);
+      expect(domain.test('https://example.com.cn/x')).toBe(false);
+
+      const anchored = urlFilterToRegExp('|https://a.com/x.js|', true);
+      expect(anchored.test('https://a.com/x.js')).toBe(true);
+      expect(anchored.test('https://a.com/x.js?v=1')).toBe(false);
+      expect(anchored.test('https://a.com/X.js')).toBe(false);
+    });
+  });
+});
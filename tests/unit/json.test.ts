@@ -205,6 +205,408 @@ describe('JSON Utils', () => {
     });
   });
 
+  describe('资源类型过滤', () => {
+    it('应该解析对象格式规则的 types 字段', () => {
+      const ruleText = JSON.stringify({
+        proxy: [
+          {
+            source: 'https://cdn.example.com/(.*).js',
+            target: 'http://localhost:3000/$1.js',
+            types: ['script', 'Stylesheet'],
+          },
+        ],
+      });
+      const result = parseRuleGroup(ruleText);
+
+      expect(result.proxy![0].types).toEqual(['script', 'stylesheet']);
+    });
+
+    it('应该解析数组格式第三项中的 types', () => {
+      const ruleText = JSON.stringify({
+        proxy: [
+          [
+            'https://cdn.example.com/app.js',
+            'http://localhost:3000/app.js',
+            { types: ['script'] },
+          ],
+        ],
+      });
+      const result = parseRuleGroup(ruleText);
+
+      expect(result.proxy![0].types).toEqual(['script']);
+      expect(result.proxy![0].source).toBe('https://cdn.example.com/app.js');
+    });
+
+    it('应该忽略无法识别的资源类型', () => {
+      const ruleText = JSON.stringify({
+        proxy: [
+          { source: 'a.com', target: 'b.com', types: ['unknown', 1] },
+          { source: 'c.com', target: 'd.com', types: ['image', 'unknown'] },
+        ],
+      });
+      const result = parseRuleGroup(ruleText);
+
+      expect(result.proxy![0].types).toBeUndefined();
+      expect(result.proxy![1].types).toEqual(['image']);
+    });
+  });
+
+  describe('请求方法与域名条件', () => {
+    it('应该解析 methods 和域名条件字段', () => {
+      const ruleText = JSON.stringify({
+        proxy: [
+          {
+            source: 'https://api.example.com/api/(.*)',
+            target: 'http://localhost:3000/api/$1',
+            methods: ['POST', 'put', 'invalid'],
+            initiatorDomains: ['Staging.Example.com'],
+            excludedInitiatorDomains: ['admin.staging.example.com'],
+            excludedRequestDomains: ['static.example.com'],
+          },
+        ],
+      });
+      const rule = parseRuleGroup(ruleText).proxy![0];
+
+      expect(rule.methods).toEqual(['post', 'put']);
+      expect(rule.initiatorDomains).toEqual(['staging.example.com']);
+      expect(rule.excludedInitiatorDomains).toEqual([
+        'admin.staging.example.com',
+      ]);
+      expect(rule.excludedRequestDomains).toEqual(['static.example.com']);
+    });
+
+    it('未配置时不应该产生条件字段', () => {
+      const rule = parseRuleGroup(
+        JSON.stringify({ proxy: [['a.com', 'b.com']] })
+      ).proxy![0];
+
+      expect(rule).not.toHaveProperty('methods');
+      expect(rule).not.toHaveProperty('initiatorDomains');
+    });
+  });
+
+  describe('请求头规则', () => {
+    it('应该解析 headers 配置', () => {
+      const ruleText = JSON.stringify({
+        headers: [
+          {
+            pattern: 'api.example.com',
+            requestHeaders: [
+              { header: 'Authorization', operation: 'set', value: 'Bearer token' },
+              { header: 'X-Env', value: 'staging' },
+              { header: 'Cookie', operation: 'remove' },
+            ],
+            responseHeaders: [
+              { header: 'X-Debug', operation: 'append', value: 1 },
+            ],
+            types: ['xmlhttprequest'],
+          },
+        ],
+      });
+      const [rule] = parseRuleGroup(ruleText).headers!;
+
+      expect(rule.pattern).toBe('api.example.com');
+      expect(rule.enabled).toBe(true);
+      expect(rule.types).toEqual(['xmlhttprequest']);
+      expect(rule.requestHeaders).toEqual([
+        { header: 'Authorization', operation: 'set', value: 'Bearer token' },
+        { header: 'X-Env', operation: 'set', value: 'staging' },
+        { header: 'Cookie', operation: 'remove' },
+      ]);
+      expect(rule.responseHeaders).toEqual([
+        { header: 'X-Debug', operation: 'append', value: '1' },
+      ]);
+    });
+
+    it('应该忽略无效的请求头操作', () => {
+      const ruleText = JSON.stringify({
+        headers: [
+          {
+            pattern: 'api.example.com',
+            requestHeaders: [
+              { header: 'X-A', operation: 'rename', value: 'b' },
+              { header: 'X-B', operation: 'set' },
+              { operation: 'remove' },
+            ],
+          },
+        ],
+      });
+      const [rule] = parseRuleGroup(ruleText).headers!;
+
+      expect(rule.requestHeaders).toEqual([]);
+      expect(rule.responseHeaders).toEqual([]);
+    });
+
+    it('countActiveRules 应该计入 headers 规则', () => {
+      const ruleText = JSON.stringify({
+        proxy: [['a.com', 'b.com']],
+        headers: [{ pattern: 'a.com', requestHeaders: [] }],
+      });
+
+      expect(countActiveRules(ruleText)).toBe(2);
+    });
+  });
+
+  describe('规则语法类型', () => {
+    it('应该只接受 string、regex、glob，未指定时保留为空', () => {
+      const ruleText = JSON.stringify({
+        proxy: [
+          ['a.com', 'b.com'],
+          ['https://a.com/x.js?v=1', 'https://b.com/x.js', { type: 'string' }],
+          { source: 'https://a.com/**/*.js', target: 'b.com', type: 'GLOB' },
+          { source: 'a.com', target: 'b.com', type: 'wildcard' },
+        ],
+        block: [{ pattern: '^https://c\\.com/', type: 'regex' }],
+      });
+      const result = parseRuleGroup(ruleText);
+
+      expect(result.proxy!.map(rule => rule.type)).toEqual([
+        undefined,
+        'string',
+        'glob',
+        undefined,
+      ]);
+      expect(result.block![0].type).toBe('regex');
+    });
+
+    it('应该解析 caseSensitive 和 anchored 选项，仅接受布尔值', () => {
+      const ruleText = JSON.stringify({
+        proxy: [
+          ['a.com', 'b.com', { caseSensitive: true, anchored: 'yes' }],
+          { source: 'c.com', target: 'd.com', anchored: true },
+        ],
+      });
+      const result = parseRuleGroup(ruleText);
+
+      expect(result.proxy![0].caseSensitive).toBe(true);
+      expect(result.proxy![0]).not.toHaveProperty('anchored');
+      expect(result.proxy![1].anchored).toBe(true);
+    });
+  });
+
+  describe('规则优先级', () => {
+    it('应该解析对象格式和数组选项中的 priority', () => {
+      const ruleText = JSON.stringify({
+        proxy: [
+          { source: 'a.com', target: 'b.com', priority: 5 },
+          ['c.com', 'd.com', { priority: -1 }],
+          { source: 'e.com', target: 'f.com', priority: 'high' },
+        ],
+        block: [{ pattern: 'g.com', priority: 2 }],
+      });
+      const result = parseRuleGroup(ruleText);
+
+      expect(result.proxy!.map(rule => rule.priority)).toEqual([
+        5,
+        -1,
+        undefined,
+      ]);
+      expect(result.block![0].priority).toBe(2);
+    });
+  });
+
+  describe('地址改写', () => {
+    it('应该解析 transform 与 preserveQuery，忽略无效字段', () => {
+      const ruleText = JSON.stringify({
+        proxy: [
+          {
+            source: 'api.example.com',
+            transform: {
+              scheme: 'HTTP',
+              host: 'localhost',
+              port: 3000,
+              path: 42,
+              addQueryParams: { debug: 1, mock: 'true', bad: {} },
+              removeQueryParams: ['token', ''],
+            },
+          },
+          ['a.com/app.js', 'https://b.com/app.js', { preserveQuery: true }],
+          { source: 'c.com', target: 'd.com', transform: { scheme: 'ws' } },
+        ],
+      });
+      const result = parseRuleGroup(ruleText);
+
+      expect(result.proxy![0]).toMatchObject({
+        target: '',
+        transform: {
+          scheme: 'http',
+          host: 'localhost',
+          port: '3000',
+          addQueryParams: { debug: '1', mock: 'true' },
+          removeQueryParams: ['token'],
+        },
+      });
+      expect(result.proxy![0].transform).not.toHaveProperty('path');
+      expect(result.proxy![1].preserveQuery).toBe(true);
+      expect(result.proxy![2]).not.toHaveProperty('transform');
+    });
+  });
+
+  describe('变量', () => {
+    it('应该展开 source、target 中的变量，规则组变量覆盖全局变量', () => {
+      const ruleText = JSON.stringify({
+        vars: { DEV_HOST: '${SCHEME}://127.0.0.1:3000', VERSION: 2 },
+        proxy: [
+          ['https://cdn.example.com/v${VERSION}/(.*)', '${DEV_HOST}/$1'],
+          { source: '${API_HOST}', target: '${DEV_HOST}/api' },
+        ],
+        block: ['${API_HOST}/track'],
+      });
+      const result = parseRuleGroup(ruleText, {
+        vars: { SCHEME: 'http', API_HOST: 'api.example.com', VERSION: '1' },
+      });
+
+      expect(
+        result.proxy!.map(({ source, target }) => [source, target])
+      ).toEqual([
+        ['https://cdn.example.com/v2/(.*)', 'http://127.0.0.1:3000/$1'],
+        ['api.example.com', 'http://127.0.0.1:3000/api'],
+      ]);
+      expect(result.block![0].source).toBe('api.example.com/track');
+      expect(result.vars).toMatchObject({ VERSION: '2' });
+    });
+
+    it('未定义的变量应该原样保留', () => {
+      const result = parseRuleGroup(
+        JSON.stringify({ proxy: [['${MISSING}.com', 'b.com']] })
+      );
+
+      expect(result.proxy![0].source).toBe('${MISSING}.com');
+    });
+
+    it('相对目标地址应该按 baseUrl 补全，规则组配置优先', () => {
+      const ruleText = JSON.stringify({
+        proxy: [
+          ['a.com/app.js', '/dist/app.js'],
+          ['b.com/app.js', '//cdn.test/app.js'],
+        ],
+      });
+
+      expect(
+        parseRuleGroup(ruleText, { baseUrl: 'http://127.0.0.1:8080/' })
+          .proxy![0].target
+      ).toBe('http://127.0.0.1:8080/dist/app.js');
+      expect(
+        parseRuleGroup(
+          JSON.stringify({ ...JSON.parse(ruleText), baseUrl: '${DEV}' }),
+          { vars: { DEV: 'http://dev.test' }, baseUrl: 'http://127.0.0.1' }
+        ).proxy!.map(rule => rule.target)
+      ).toEqual(['http://dev.test/dist/app.js', '//cdn.test/app.js']);
+      // 未配置时保留相对地址，由编译器按默认地址补全
+      expect(parseRuleGroup(ruleText).proxy![0].target).toBe('/dist/app.js');
+    });
+  });
+
+  describe('CORS 策略', () => {
+    it('应该解析对象格式的 CORS 规则与分组配置', () => {
+      const ruleText = JSON.stringify({
+        cors: [
+          'legacy.example.com',
+          {
+            pattern: 'api.example.com',
+            origin: 'reflect',
+            credentials: true,
+            methods: ['get', 'post'],
+            exposeHeaders: 'X-Total-Count, X-Request-Id',
+            maxAge: 600,
+            resourceTypes: ['xmlhttprequest', 'unknown'],
+          },
+        ],
+        corsConfig: { credentials: 'true', headers: ['Content-Type'] },
+      });
+      const result = parseRuleGroup(ruleText);
+
+      expect(result.cors![0]).toEqual({
+        id: 'cors_0',
+        pattern: 'legacy.example.com',
+        enabled: true,
+      });
+      expect(result.cors![1]).toMatchObject({
+        origin: 'reflect',
+        credentials: true,
+        methods: 'GET, POST',
+        exposeHeaders: 'X-Total-Count, X-Request-Id',
+        maxAge: 600,
+        resourceTypes: ['xmlhttprequest'],
+      });
+      expect(result.corsConfig).toEqual({
+        credentials: true,
+        headers: 'Content-Type',
+      });
+    });
+
+    it('应该将 origins 统一为来源并忽略无法解析的项', () => {
+      const ruleText = JSON.stringify({
+        cors: [
+          {
+            pattern: 'api.example.com',
+            origins: [
+              'http://localhost:3000/app',
+              'HTTPS://App.Example.com',
+              'http://localhost:3000',
+              'not an origin',
+            ],
+          },
+        ],
+      });
+
+      expect(parseRuleGroup(ruleText).cors![0].origins).toEqual([
+        'http://localhost:3000',
+        'https://app.example.com',
+      ]);
+    });
+  });
+
+  describe('拦截规则', () => {
+    it('应该将 target 为 null 的规则解析为拦截', () => {
+      const ruleText = JSON.stringify({
+        proxy: [
+          ['https://cdn.example.com/sw.js', null],
+          { source: 'analytics.example.com', target: null },
+          { source: 'tracker.example.com', action: 'block' },
+          ['https://a.com', 'https://b.com'],
+        ],
+      });
+      const proxy = parseRuleGroup(ruleText).proxy!;
+
+      expect(proxy.map(rule => rule.action)).toEqual([
+        'block',
+        'block',
+        'block',
+        'redirect',
+      ]);
+      expect(proxy[0].target).toBe('');
+      expect(proxy[2].source).toBe('tracker.example.com');
+    });
+
+    it('应该解析 block 配置段', () => {
+      const ruleText = JSON.stringify({
+        block: [
+          'analytics.example.com',
+          { pattern: 'cdn.example.com/(.*).js', types: ['script'] },
+          { source: 'disabled.example.com', enabled: false },
+        ],
+      });
+      const block = parseRuleGroup(ruleText).block!;
+
+      expect(block).toHaveLength(3);
+      expect(block.every(rule => rule.action === 'block')).toBe(true);
+      expect(block[0].source).toBe('analytics.example.com');
+      expect(block[1].source).toBe('cdn.example.com/(.*).js');
+      expect(block[1].types).toEqual(['script']);
+      expect(block[2].enabled).toBe(false);
+    });
+
+    it('countActiveRules 应该计入 block 规则', () => {
+      const ruleText = JSON.stringify({
+        proxy: [['a.com', 'b.com']],
+        block: ['c.com', 'd.com'],
+      });
+
+      expect(countActiveRules(ruleText)).toBe(3);
+    });
+  });
+
   describe('countActiveRules', () => {
     it('应该正确计算基本规则数量', () => {
       const ruleText = JSON.stringify(testRuleConfigs.basic);
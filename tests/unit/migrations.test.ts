@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StorageDao } from '../../entrypoints/background/dao/StorageDao';
+import {
+  Migration,
+  MIGRATIONS,
+  MigrationStorage,
+} from '../../entrypoints/background/dao/migrations';
+import { setupChromeEnvironment } from '../mocks/chrome';
+import { legacyConfigExample } from '../fixtures/configs';
+import { createTestGroup } from '../utils/testUtils';
+
+/**
+ * 存储结构迁移单元测试
+ */
+describe('存储迁移', () => {
+  // 内存存储，直接检查迁移写入的原始数据
+  const createStorage = (
+    data: Record<string, any>
+  ): MigrationStorage & { data: Record<string, any> } => ({
+    data,
+    get: async keys =>
+      Object.fromEntries(
+        keys.filter(key => key in data).map(key => [key, data[key]])
+      ),
+    set: async values => {
+      Object.assign(data, values);
+    },
+  });
+
+  const runMigration = async (version: number, data: Record<string, any>) => {
+    const storage = createStorage(data);
+    await MIGRATIONS.find(migration => migration.version === version)!.migrate(
+      storage
+    );
+    return storage.data;
+  };
+
+  it('迁移版本号从 1 开始连续递增', () => {
+    expect(MIGRATIONS.map(migration => migration.version)).toEqual(
+      MIGRATIONS.map((_, index) => index + 1)
+    );
+  });
+
+  describe('版本 1：导入 xswitch v2 的规则', () => {
+    it('每个规则页签导入为一个规则组，按 activeKeys 设置启用状态', async () => {
+      const data = await runMigration(1, {
+        tabList: [
+          { id: '0', name: '默认规则' },
+          { id: 1, name: '预发' },
+          { id: '2', name: '没有配置' },
+        ],
+        activeKeys: ['1'],
+        config: '// 本地开发\n{ "proxy": [], "cors": [] }',
+        config_1: legacyConfigExample,
+      });
+
+      expect(data.xswitch_groups).toMatchObject([
+        {
+          id: 'legacy-0',
+          groupName: '默认规则',
+          enabled: false,
+          ruleText: '// 本地开发\n{ "proxy": [], "cors": [] }',
+        },
+        {
+          id: 'legacy-1',
+          groupName: '预发',
+          enabled: true,
+          ruleText: JSON.stringify(legacyConfigExample, null, 2),
+        },
+      ]);
+      // 旧数据保留
+      expect(data.config_1).toEqual(legacyConfigExample);
+    });
+
+    it('已有规则组时停用导入的规则组追加在后，重名时加后缀', async () => {
+      const existing = createTestGroup({
+        id: 'local',
+        groupName: '默认规则',
+        enabled: true,
+      });
+
+      const data = await runMigration(1, {
+        xswitch_groups: [existing],
+        tabList: [
+          { id: '0', name: '默认规则' },
+          { id: 1, name: '预发' },
+        ],
+        activeKeys: ['0', '1'],
+        config: '{ "proxy": [] }',
+        config_1: '{ "proxy": [] }',
+      });
+
+      expect(data.xswitch_groups).toHaveLength(3);
+      expect(data.xswitch_groups[0]).toEqual(existing);
+      expect(data.xswitch_groups.slice(1)).toMatchObject([
+        { groupName: '默认规则（v2）', enabled: false },
+        { groupName: '预发', enabled: false },
+      ]);
+    });
+
+    it('没有旧版数据时不写入', async () => {
+      expect(await runMigration(1, {})).toEqual({});
+    });
+  });
+
+  describe('版本 2：补全规则组缺少的字段', () => {
+    it('补全字段并保留已有内容', async () => {
+      const complete = createTestGroup({ id: 'complete', activateOn: ['a'] });
+
+      const data = await runMigration(2, {
+        xswitch_groups: [
+          complete,
+          null,
+          {
+            id: 7,
+            groupName: '旧规则组',
+            enabled: 'yes',
+            ruleText: { proxy: [] },
+          },
+        ],
+      });
+
+      expect(data.xswitch_groups).toHaveLength(2);
+      expect(data.xswitch_groups[0]).toEqual(complete);
+      expect(data.xswitch_groups[1]).toMatchObject({
+        id: '7',
+        groupName: '旧规则组',
+        enabled: false,
+        ruleText: JSON.stringify({ proxy: [] }, null, 2),
+      });
+      expect(data.xswitch_groups[1].createTime).toEqual(expect.any(String));
+    });
+  });
+
+  describe('StorageDao.runMigrations', () => {
+    let mockChrome: ReturnType<typeof setupChromeEnvironment>;
+    let storageDao: StorageDao;
+
+    const createMigration = (
+      version: number,
+      migrate: Migration['migrate'] = vi.fn(() => Promise.resolve())
+    ): Migration => ({ version, description: `v${version}`, migrate });
+
+    beforeEach(() => {
+      mockChrome = setupChromeEnvironment();
+      mockChrome.storage._setStorage({});
+      storageDao = StorageDao.getInstance();
+    });
+
+    it('按版本顺序执行未执行的迁移并记录版本', async () => {
+      const order: number[] = [];
+      const record = (version: number) =>
+        createMigration(version, async () => {
+          order.push(version);
+        });
+      mockChrome.storage._setStorage({ xswitch_schema_version: 1 });
+
+      expect(
+        await storageDao.runMigrations([record(3), record(1), record(2)])
+      ).toBe(3);
+      expect(order).toEqual([2, 3]);
+      expect(await storageDao.loadSchemaVersion()).toBe(3);
+
+      // 已是最新版本时不再执行
+      expect(await storageDao.runMigrations([record(3)])).toBe(3);
+      expect(order).toEqual([2, 3]);
+    });
+
+    it('迁移失败时保留之前的版本，下次从失败的迁移重试', async () => {
+      const second = createMigration(
+        2,
+        vi
+          .fn<Migration['migrate']>()
+          .mockRejectedValueOnce(new Error('broken'))
+          .mockResolvedValue(undefined)
+      );
+      const migrations = [createMigration(1), second];
+
+      await expect(storageDao.runMigrations(migrations)).rejects.toThrow(
+        'broken'
+      );
+      expect(await storageDao.loadSchemaVersion()).toBe(1);
+
+      expect(await storageDao.runMigrations(migrations)).toBe(2);
+      expect(migrations[0].migrate).toHaveBeenCalledTimes(1);
+      expect(second.migrate).toHaveBeenCalledTimes(2);
+    });
+
+    it('已有规则组的用户升级后启用的规则组不变', async () => {
+      const existing = createTestGroup({ id: 'local', enabled: true });
+      mockChrome.storage._setStorage({
+        xswitch_groups: [existing],
+        activeKeys: ['0'],
+        config: legacyConfigExample,
+      });
+
+      expect(await storageDao.runMigrations()).toBe(MIGRATIONS.length);
+      const groups = await storageDao.loadGroups();
+      expect(groups.filter(group => group.enabled)).toEqual([existing]);
+      expect(groups[1]).toMatchObject({ id: 'legacy-0', enabled: false });
+    });
+
+    it('新安装执行全部迁移后为最新版本', async () => {
+      expect(await storageDao.runMigrations()).toBe(MIGRATIONS.length);
+      expect(await storageDao.loadGroups()).toEqual([]);
+    });
+  });
+});
@@ -1,8 +1,17 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { NetworkService } from '../../entrypoints/utils/network';
+import { HeaderRule } from '../../entrypoints/utils/json';
+import { compileRule } from '../../entrypoints/utils/compiler';
 import { setupTestEnvironment, cleanupTestEnvironment, generateUrlTestCases, createTestGroup } from '../utils/testUtils';
 import { mockGroups, testRuleConfigs } from '../fixtures/configs';
 
+vi.mock('../../entrypoints/utils/compiler', async importOriginal => {
+  const actual =
+    await importOriginal<typeof import('../../entrypoints/utils/compiler')>();
+  // 统计编译次数，验证请求匹配复用编译结果
+  return { ...actual, compileRule: vi.fn(actual.compileRule) };
+});
+
 /**
  * 网络服务单元测试
  */
@@ -19,14 +28,48 @@ describe('NetworkService', () => {
     cleanupTestEnvironment();
   });
 
+  // 应用只有一个规则组的配置，返回写入浏览器的动态规则
+  const applyRuleConfig = async (config: Record<string, unknown>) => {
+    await networkService.updateRules(
+      [createTestGroup({ ruleText: JSON.stringify(config) })],
+      true
+    );
+    return (
+      mockChrome.declarativeNetRequest.updateDynamicRules.mock.calls.at(-1)?.[0]
+        .addRules ?? []
+    );
+  };
+
+  // 通过 webRequest 监听器发出请求，返回发送到页面的命中提示
+  const dispatchRequests = async (requests: Array<Record<string, unknown>>) => {
+    mockChrome.tabs.sendMessage.mockClear();
+    mockChrome.tabs.sendMessage.mockResolvedValue(undefined);
+    const listener =
+      mockChrome.webRequest.onBeforeRequest.addListener.mock.calls.at(-1)[0];
+    requests.forEach(details => listener(details));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return mockChrome.tabs.sendMessage.mock.calls.map((call: any[]) => call[1]);
+  };
+
+  const logGroups = (...configs: Array<Record<string, unknown>>) =>
+    networkService.setupNetworkLogging(
+      true,
+      configs.map(config =>
+        createTestGroup({ ruleText: JSON.stringify(config) })
+      )
+    );
+
+  // 按规则源编译后匹配 URL，与请求匹配使用同一编译器
+  const isUrlMatched = (url: string, pattern: string) =>
+    compileRule({ source: pattern, target: '', action: 'block' }).matches(url);
+
   describe('URL 匹配功能', () => {
     const urlTestCases = generateUrlTestCases();
 
     it.each(urlTestCases)(
       '$description: $url 应该 $shouldMatch ? "匹配" : "不匹配" $pattern',
       ({ url, pattern, shouldMatch }) => {
-        // @ts-ignore - 访问私有方法进行测试
-        const result = networkService.isUrlMatched(url, pattern);
+        const result = isUrlMatched(url, pattern);
         expect(result).toBe(shouldMatch);
       }
     );
@@ -56,8 +99,7 @@ describe('NetworkService', () => {
       ];
 
       testCases.forEach(({ url, pattern, expected }) => {
-        // @ts-ignore
-        const result = networkService.isUrlMatched(url, pattern);
+        const result = isUrlMatched(url, pattern);
         expect(result).toBe(expected);
       });
     });
@@ -82,8 +124,7 @@ describe('NetworkService', () => {
       ];
 
       specialCases.forEach(({ url, pattern, expected }) => {
-        // @ts-ignore
-        const result = networkService.isUrlMatched(url, pattern);
+        const result = isUrlMatched(url, pattern);
         expect(result).toBe(expected);
       });
     });
@@ -107,8 +148,7 @@ describe('NetworkService', () => {
       ];
 
       testCases.forEach(({ url, source, target, expected }) => {
-        // @ts-ignore
-        const result = networkService.getTargetUrl(url, source, target);
+        const result = compileRule({ source, target }).getTargetUrl(url);
         expect(result).toBe(expected);
       });
     });
@@ -130,8 +170,7 @@ describe('NetworkService', () => {
       ];
 
       testCases.forEach(({ url, source, target, expected }) => {
-        // @ts-ignore
-        const result = networkService.getTargetUrl(url, source, target);
+        const result = compileRule({ source, target }).getTargetUrl(url);
         expect(result).toBe(expected);
       });
     });
@@ -141,8 +180,7 @@ describe('NetworkService', () => {
       const source = 'different.com';
       const target = 'localhost:3000';
       
-      // @ts-ignore
-      const result = networkService.getTargetUrl(url, source, target);
+      const result = compileRule({ source, target }).getTargetUrl(url);
       expect(result).toBe(url); // 应该返回原 URL
     });
   });
@@ -173,24 +211,52 @@ describe('NetworkService', () => {
       ];
 
       testCases.forEach(({ source, target, expectedSubstitution }) => {
-        // @ts-ignore - 访问私有方法
-        const redirect = networkService.convertToRedirect(source, target);
-        
+        const { redirect } = compileRule({ source, target });
+
         expect(redirect).toBeDefined();
         expect(redirect?.regexSubstitution).toBe(expectedSubstitution);
       });
     });
 
-    it('应该为没有捕获组的目标返回直接 URL', () => {
+    it('字符串规则的目标为完整地址时重定向整个 URL', () => {
       const source = 'https://example.com/path';
       const target = 'https://newdomain.com/path';
-      
-      // @ts-ignore
-      const redirect = networkService.convertToRedirect(source, target);
-      
-      expect(redirect).toBeDefined();
-      expect(redirect?.url).toBe(target);
-      expect(redirect?.regexSubstitution).toBeUndefined();
+
+      const compiled = compileRule({ source, target });
+
+      expect(compiled.redirect).toEqual({ url: target });
+      expect(compiled.getTargetUrl('https://example.com/path?q=1')).toBe(
+        target
+      );
+    });
+
+    it('字符串规则的相对目标补全为本地地址后重定向整个 URL', () => {
+      const compiled = compileRule({
+        source: '/api/test',
+        target: '/mock/test',
+      });
+
+      expect(compiled.condition.urlFilter).toBe('/api/test');
+      expect(compiled.redirect).toEqual({
+        url: 'http://localhost:3000/mock/test',
+      });
+      expect(compiled.getTargetUrl('https://x.com/api/test?q=1')).toBe(
+        'http://localhost:3000/mock/test'
+      );
+    });
+
+    it('字符串规则的目标为主机名等片段时只替换命中片段', () => {
+      const compiled = compileRule({
+        source: 'api.example.com',
+        target: 'localhost:3000',
+      });
+
+      expect(compiled.redirect).toEqual({
+        regexSubstitution: 'localhost:3000',
+      });
+      expect(compiled.getTargetUrl('https://api.example.com/users')).toBe(
+        'https://localhost:3000/users'
+      );
     });
 
     it('应该正确处理用户实际案例', () => {
@@ -198,8 +264,7 @@ describe('NetworkService', () => {
       const source = 'https://g.alicdn.com/m2c-fe/1688-print-order/([0-9.]*)/(.*)';
       const target = 'https://g.alicdn.com/m2c-fe/1688-print-order/1.2.0/$2';
       
-      // @ts-ignore
-      const redirect = networkService.convertToRedirect(source, target);
+      const { redirect } = compileRule({ source, target });
       
       expect(redirect).toBeDefined();
       expect(redirect?.regexSubstitution).toBe('https://g.alicdn.com/m2c-fe/1688-print-order/1.2.0/\\2');
@@ -216,23 +281,23 @@ describe('NetworkService', () => {
       const testCases = [
         {
           source: 'https://g.alicdn.com/m2c-fe/1688-print-order/([0-9.]*)/(.*)',
-          expectedFilter: '^https://g.alicdn.com/m2c-fe/1688-print-order/([0-9.]*)/(.*?)$'
+          expectedFilter: 'https://g.alicdn.com/m2c-fe/1688-print-order/([0-9.]*)/(.*)'
         },
         {
           source: 'https://example.com/(.*)/old/(.*)',
-          expectedFilter: '^https://example.com/(.*?)/old/(.*?)$'
+          expectedFilter: 'https://example.com/(.*)/old/(.*)'
         },
         {
           source: '(.*).staging.example.com',
-          expectedFilter: '^(.*?).staging.example.com$'
+          anchored: true,
+          expectedFilter: '^(?:(.*).staging.example.com)$'
         }
       ];
 
-      testCases.forEach(({ source, expectedFilter }) => {
-        // @ts-ignore - 访问私有方法
-        const regexFilter = networkService.convertToRegexFilter(source);
-        
-        expect(regexFilter).toBe(expectedFilter);
+      testCases.forEach(({ source, anchored, expectedFilter }) => {
+        const { condition } = compileRule({ source, target: '', anchored });
+
+        expect(condition.regexFilter).toBe(expectedFilter);
       });
     });
 
@@ -255,7 +320,7 @@ describe('NetworkService', () => {
       const rule = rules[0];
       expect(rule.action.type).toBe('redirect');
       expect(rule.action.redirect?.regexSubstitution).toBe('https://g.alicdn.com/m2c-fe/1688-print-order/1.2.0/\\2');
-      expect(rule.condition.regexFilter).toBe('^https://g.alicdn.com/m2c-fe/1688-print-order/([0-9.]*)/(.*?)$');
+      expect(rule.condition.regexFilter).toBe('https://g.alicdn.com/m2c-fe/1688-print-order/([0-9.]*)/(.*)');
       expect(rule.condition.urlFilter).toBeUndefined(); // 使用 regexFilter 时不应有 urlFilter
     });
 
@@ -271,19 +336,20 @@ describe('NetworkService', () => {
             target: 'https://newdomain.com/$1/$2',
             type: 'regex' as const
           },
-          expectedRegexFilter: '^https://example.com/(.*?)/(.*?)$',
+          expectedRegexFilter: 'https://example.com/(.*)/(.*)',
           expectedRegexSubstitution: 'https://newdomain.com/\\1/\\2',
           shouldHaveUrlFilter: false
         },
         {
-          name: '无捕获组的规则应该使用urlFilter',
+          name: '锚定的字符串规则应该使用urlFilter',
           rule: {
             id: 'url-rule',
             name: 'URL Rule',
             enabled: true,
             source: 'https://example.com/api',
             target: 'https://newdomain.com/api',
-            type: 'string' as const
+            type: 'string' as const,
+            anchored: true
           },
           expectedUrl: 'https://newdomain.com/api',
           shouldHaveRegexFilter: false
@@ -355,7 +421,9 @@ describe('NetworkService', () => {
       const result = networkService.generateProxyRules(proxyRules);
       
       expect(result).toHaveLength(1);
-      expect(result[0].condition.urlFilter).toContain('api.example.com');
+      // 相对目标只替换命中片段，需要 regexFilter 配合 regexSubstitution
+      expect(result[0].condition.regexFilter).toBe('api\\.example\\.com');
+      expect(result[0].action.redirect!.regexSubstitution).toBe('localhost:3000');
     });
 
     it('应该处理复杂的规则配置', () => {
@@ -373,6 +441,144 @@ describe('NetworkService', () => {
     });
   });
 
+  describe('资源类型过滤', () => {
+    const scriptRule = {
+      id: 'script-only',
+      name: '仅脚本',
+      enabled: true,
+      source: 'https://cdn.example.com/app.js',
+      target: 'http://localhost:3000/app.js',
+      type: 'string' as const,
+      types: ['script', 'stylesheet'] as any,
+    };
+
+    it('应该在 DNR 条件中使用规则的 types', async () => {
+      const [rule] = await applyRuleConfig({ proxy: [scriptRule] });
+
+      expect(rule.condition.resourceTypes).toEqual(['script', 'stylesheet']);
+    });
+
+    it('未配置 types 时应该使用默认资源类型', async () => {
+      const [rule] = await applyRuleConfig({
+        proxy: [{ ...scriptRule, types: undefined }],
+      });
+
+      expect(rule.condition.resourceTypes).toContain('main_frame');
+      expect(rule.condition.resourceTypes).toContain('websocket');
+    });
+
+    it('不同资源类型的请求不应该触发命中通知', async () => {
+      logGroups({ proxy: [scriptRule] });
+
+      const hits = await dispatchRequests(
+        ['script', 'sub_frame', 'xmlhttprequest'].map(type => ({
+          url: scriptRule.source,
+          type,
+          tabId: 1,
+        }))
+      );
+      expect(hits.map((hit: any) => hit.data.requestType)).toEqual(['script']);
+    });
+  });
+
+  describe('请求方法与域名条件', () => {
+    const scopedRule = {
+      id: 'scoped',
+      name: '限定条件',
+      enabled: true,
+      source: 'https://api.example.com/api/users',
+      target: 'http://localhost:3000/api/users',
+      type: 'string' as const,
+      methods: ['post'] as any,
+      initiatorDomains: ['staging.example.com'],
+      excludedInitiatorDomains: ['admin.staging.example.com'],
+      excludedRequestDomains: ['static.example.com'],
+    };
+
+    it('应该映射到 DNR 条件字段', async () => {
+      const [rule] = await applyRuleConfig({ proxy: [scopedRule] });
+
+      expect(rule.condition.requestMethods).toEqual(['post']);
+      expect(rule.condition.initiatorDomains).toEqual(['staging.example.com']);
+      expect(rule.condition.excludedInitiatorDomains).toEqual([
+        'admin.staging.example.com',
+      ]);
+      expect(rule.condition.excludedRequestDomains).toEqual([
+        'static.example.com',
+      ]);
+    });
+
+    it('日志匹配应该与 DNR 条件语义一致', async () => {
+      const base = {
+        url: scopedRule.source,
+        type: 'xmlhttprequest',
+        method: 'POST',
+        initiator: 'https://staging.example.com',
+      };
+      const cases = [
+        { details: base, expected: true },
+        { details: { ...base, method: 'GET' }, expected: false },
+        { details: { ...base, initiator: 'https://a.staging.example.com' }, expected: true },
+        { details: { ...base, initiator: 'https://admin.staging.example.com' }, expected: false },
+        { details: { ...base, initiator: 'https://other.com' }, expected: false },
+        { details: { ...base, initiator: undefined }, expected: false },
+        { details: { ...base, url: 'https://static.example.com/api/users' }, expected: false },
+      ];
+
+      logGroups({ proxy: [scopedRule] });
+      for (const { details, expected } of cases) {
+        const hits = await dispatchRequests([{ ...details, tabId: 1 }]);
+        expect(hits, JSON.stringify(details)).toHaveLength(expected ? 1 : 0);
+      }
+    });
+  });
+
+  describe('拦截规则生成', () => {
+    const blockRule = {
+      id: 'block-1',
+      name: '拦截统计脚本',
+      enabled: true,
+      source: 'analytics.example.com',
+      target: '',
+      action: 'block' as const,
+    };
+
+    it('应该生成 BLOCK 类型的规则', async () => {
+      const [rule] = await applyRuleConfig({ proxy: [blockRule] });
+
+      expect(rule.action).toEqual({ type: 'block' });
+      expect(rule.condition.urlFilter).toContain('analytics.example.com');
+    });
+
+    it('正则拦截规则应该使用 regexFilter', async () => {
+      const [rule] = await applyRuleConfig({
+        proxy: [{ ...blockRule, source: 'https://cdn.example.com/(.*)/sw.js' }],
+      });
+
+      expect(rule.action.type).toBe('block');
+      expect(rule.condition.regexFilter).toBe(
+        'https://cdn.example.com/(.*)/sw.js'
+      );
+    });
+
+    it('命中拦截规则时应该单独上报', async () => {
+      logGroups({ block: ['analytics.example.com'] });
+
+      const hits = await dispatchRequests([
+        { url: 'https://analytics.example.com/collect', type: 'script', tabId: 1 },
+      ]);
+
+      expect(hits).toEqual([
+        expect.objectContaining({
+          type: 'PROXY_BLOCKED',
+          data: expect.objectContaining({
+            originalUrl: 'https://analytics.example.com/collect',
+          }),
+        }),
+      ]);
+    });
+  });
+
   describe('CORS 规则生成', () => {
     it('应该正确生成 CORS 规则', () => {
       const corsRules = testRuleConfigs.basic.cors;
@@ -382,13 +588,22 @@ describe('NetworkService', () => {
       
       expect(result).toHaveLength(1);
       expect(result[0]).toHaveProperty('id');
-      expect(result[0]).toHaveProperty('priority', 2);
+      expect(result[0]).toHaveProperty('priority', 999_999);
       expect(result[0].action.type).toBe('modifyHeaders');
-      expect(result[0].action.responseHeaders).toHaveLength(4);
+      // 默认不携带凭据，不再输出 Allow-Credentials
+      expect(result[0].action.responseHeaders).toHaveLength(3);
     });
 
     it('应该设置正确的 CORS 头', () => {
-      const corsRules = [{ id: 'test', pattern: 'api.example.com', enabled: true }];
+      const corsRules = [
+        {
+          id: 'test',
+          pattern: 'api.example.com',
+          enabled: true,
+          origin: 'http://localhost:3000',
+          credentials: true,
+        },
+      ];
       
       // @ts-ignore
       const result = networkService.generateCorsRules(corsRules);
@@ -400,6 +615,1256 @@ describe('NetworkService', () => {
       expect(headerNames).toContain('Access-Control-Allow-Credentials');
       expect(headerNames).toContain('Access-Control-Allow-Methods');
       expect(headerNames).toContain('Access-Control-Allow-Headers');
+      expect(headers![0].value).toBe('http://localhost:3000');
+    });
+
+    it('应该合并分组配置并输出可选头部', async () => {
+      const [rule] = await applyRuleConfig({
+        cors: [{ pattern: 'api.example.com', maxAge: 60 }],
+        corsConfig: {
+          exposeHeaders: 'X-Total-Count',
+          maxAge: 600,
+          resourceTypes: ['xmlhttprequest', 'script'],
+        },
+      });
+      const headers = Object.fromEntries(
+        rule.action.responseHeaders!.map((h: any) => [h.header, h.value])
+      );
+
+      expect(headers['Access-Control-Allow-Origin']).toBe('*');
+      expect(headers['Access-Control-Expose-Headers']).toBe('X-Total-Count');
+      expect(headers['Access-Control-Max-Age']).toBe('60');
+      expect(rule.condition.resourceTypes).toEqual(['xmlhttprequest', 'script']);
+    });
+
+    describe('回显请求来源', () => {
+      const reflectGroup = (credentials = true) =>
+        createTestGroup({
+          id: 'reflect-group',
+          ruleText: JSON.stringify({
+            proxy: [],
+            cors: [{ id: 'api', pattern: 'api.example.com', credentials }],
+          }),
+        });
+
+      // 通过 webRequest 监听器发出请求，等待回显规则写入浏览器
+      const sendRequest = async (
+        service: NetworkService,
+        initiator: string,
+        tabId: number
+      ) => {
+        const calls =
+          mockChrome.declarativeNetRequest.updateSessionRules.mock.calls.length;
+        mockChrome.webRequest.onBeforeRequest.addListener.mock.calls.at(-1)[0]({
+          url: 'https://api.example.com/user',
+          type: 'xmlhttprequest',
+          initiator,
+          tabId,
+        });
+        await vi.waitFor(() =>
+          expect(
+            mockChrome.declarativeNetRequest.updateSessionRules.mock.calls
+              .length
+          ).toBeGreaterThan(calls)
+        );
+        return mockChrome.declarativeNetRequest.updateSessionRules.mock.calls.at(
+          -1
+        )[0];
+      };
+
+      const getHeaders = (rule: any) =>
+        Object.fromEntries(
+          rule.action.responseHeaders.map((h: any) => [h.header, h.value])
+        );
+
+      it('携带凭据的通配来源按完整来源回显，同一来源只生成一次', async () => {
+        await networkService.updateRules([reflectGroup()], true);
+        // 回显来源无法写成动态规则，请求发出前没有 CORS 规则
+        expect(
+          mockChrome.declarativeNetRequest.updateDynamicRules
+        ).not.toHaveBeenCalled();
+        expect(networkService.getRuleStatus().learnedCorsRules).toEqual([
+          { groupId: 'reflect-group', pattern: 'api.example.com' },
+        ]);
+
+        const { addRules } = await sendRequest(
+          networkService,
+          'https://app.example.com',
+          1
+        );
+        mockChrome.webRequest.onBeforeRequest.addListener.mock.calls.at(-1)[0]({
+          url: 'https://api.example.com/list',
+          type: 'xmlhttprequest',
+          initiator: 'https://app.example.com',
+          tabId: 1,
+        });
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(
+          mockChrome.declarativeNetRequest.updateSessionRules
+        ).toHaveBeenCalledTimes(1);
+        const [rule] = addRules;
+        expect(getHeaders(rule)).toMatchObject({
+          'Access-Control-Allow-Origin': 'https://app.example.com',
+          'Access-Control-Allow-Credentials': 'true',
+          Vary: 'Origin',
+        });
+        expect(rule.condition).toMatchObject({
+          initiatorDomains: ['app.example.com'],
+          tabIds: [1],
+        });
+      });
+
+      it('列出的来源在应用规则时预先生成规则', async () => {
+        const rules = await applyRuleConfig({
+          proxy: [],
+          cors: [
+            {
+              id: 'api',
+              pattern: 'api.example.com',
+              credentials: true,
+              origins: ['https://example.com', 'https://app.example.com'],
+            },
+          ],
+        });
+
+        expect(rules.map((rule: any) => rule.condition)).toEqual([
+          expect.objectContaining({
+            initiatorDomains: ['example.com'],
+            excludedInitiatorDomains: ['app.example.com'],
+          }),
+          expect.objectContaining({ initiatorDomains: ['app.example.com'] }),
+        ]);
+        expect(getHeaders(rules[1])).toMatchObject({
+          'Access-Control-Allow-Origin': 'https://app.example.com',
+          'Access-Control-Allow-Credentials': 'true',
+        });
+        expect(networkService.getRuleStatus().learnedCorsRules).toEqual([]);
+
+        // 首个请求前规则已经生效，请求时不再生成会话规则
+        mockChrome.webRequest.onBeforeRequest.addListener.mock.calls.at(-1)[0]({
+          url: 'https://api.example.com/user',
+          type: 'xmlhttprequest',
+          initiator: 'https://app.example.com',
+          tabId: 1,
+        });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(
+          mockChrome.declarativeNetRequest.updateSessionRules
+        ).not.toHaveBeenCalled();
+      });
+
+      it('同一主机名列出多个来源时只记录列出的来源', async () => {
+        const rules = await applyRuleConfig({
+          proxy: [],
+          cors: [
+            {
+              id: 'api',
+              pattern: 'api.example.com',
+              origins: ['http://localhost:3000', 'http://localhost:8080'],
+            },
+          ],
+        });
+        expect(rules).toEqual([]);
+
+        mockChrome.webRequest.onBeforeRequest.addListener.mock.calls.at(-1)[0]({
+          url: 'https://api.example.com/user',
+          type: 'xmlhttprequest',
+          initiator: 'http://localhost:9000',
+          tabId: 1,
+        });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(
+          mockChrome.declarativeNetRequest.updateSessionRules
+        ).not.toHaveBeenCalled();
+
+        const { addRules } = await sendRequest(
+          networkService,
+          'http://localhost:8080',
+          1
+        );
+        expect(getHeaders(addRules[0])['Access-Control-Allow-Origin']).toBe(
+          'http://localhost:8080'
+        );
+      });
+
+      it('按会话规则的 urlFilter 匹配请求，请求时不再编译规则', async () => {
+        await networkService.updateRules([reflectGroup()], true);
+        vi.mocked(compileRule).mockClear();
+
+        // 主机名只出现在查询参数中，urlFilter 不会命中
+        mockChrome.webRequest.onBeforeRequest.addListener.mock.calls.at(-1)[0]({
+          url: 'https://evil.com/?next=api.example.com',
+          type: 'xmlhttprequest',
+          initiator: 'https://app.example.com',
+          tabId: 1,
+        });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(
+          mockChrome.declarativeNetRequest.updateSessionRules
+        ).not.toHaveBeenCalled();
+
+        const { addRules } = await sendRequest(
+          networkService,
+          'https://app.example.com',
+          1
+        );
+        expect(addRules[0].condition.urlFilter).toBe('*://api.example.com/*');
+        expect(compileRule).not.toHaveBeenCalled();
+      });
+
+      it('同一主机名的不同端口按标签页区分，标签页切换端口后移出原来源', async () => {
+        await networkService.updateRules([reflectGroup()], true);
+
+        const first = await sendRequest(
+          networkService,
+          'http://localhost:3000',
+          1
+        );
+        const second = await sendRequest(
+          networkService,
+          'http://localhost:8080',
+          2
+        );
+        expect(
+          getHeaders(first.addRules[0])['Access-Control-Allow-Origin']
+        ).toBe('http://localhost:3000');
+        expect(
+          getHeaders(second.addRules[0])['Access-Control-Allow-Origin']
+        ).toBe('http://localhost:8080');
+        expect(second.addRules[0].id).not.toBe(first.addRules[0].id);
+        expect(second.addRules[0].condition.tabIds).toEqual([2]);
+
+        // 标签页 1 切换到 8080 端口，3000 端口的规则不再有标签页使用
+        const moved = await sendRequest(
+          networkService,
+          'http://localhost:8080',
+          1
+        );
+        expect(moved.removeRuleIds).toEqual(
+          expect.arrayContaining([first.addRules[0].id, second.addRules[0].id])
+        );
+        expect(moved.addRules).toHaveLength(1);
+        expect(moved.addRules[0].condition.tabIds).toEqual([2, 1]);
+      });
+
+      it('唤醒后保留已记录的来源，规则变化后移除', async () => {
+        await networkService.updateRules([reflectGroup()], true);
+        const { addRules } = await sendRequest(
+          networkService,
+          'https://app.example.com',
+          1
+        );
+        mockChrome.declarativeNetRequest.getSessionRules.mockResolvedValue(
+          addRules
+        );
+        mockChrome.declarativeNetRequest.updateSessionRules.mockClear();
+
+        // 模拟 Service Worker 重启后重新应用规则
+        const restarted = new NetworkService();
+        await restarted.updateRules([reflectGroup()], true);
+        expect(
+          mockChrome.declarativeNetRequest.updateSessionRules
+        ).not.toHaveBeenCalled();
+
+        await restarted.updateRules([reflectGroup(false)], true);
+        expect(
+          mockChrome.declarativeNetRequest.updateSessionRules
+        ).toHaveBeenCalledWith({ removeRuleIds: [addRules[0].id] });
+        mockChrome.declarativeNetRequest.getSessionRules.mockResolvedValue([]);
+      });
+    });
+  });
+
+  describe('请求头规则生成', () => {
+    const headerRule: HeaderRule = {
+      id: 'headers-1',
+      pattern: 'api.example.com',
+      enabled: true,
+      requestHeaders: [
+        { header: 'Authorization', operation: 'set', value: 'Bearer token' },
+        { header: 'Cookie', operation: 'remove' },
+      ],
+      responseHeaders: [
+        { header: 'X-Debug', operation: 'append', value: '1' },
+      ],
+    };
+
+    it('应该生成 MODIFY_HEADERS 规则', async () => {
+      const [rule] = await applyRuleConfig({ headers: [headerRule] });
+
+      expect(rule.priority).toBe(999_999);
+      expect(rule.action.type).toBe('modifyHeaders');
+      expect(rule.action.requestHeaders).toEqual([
+        { header: 'Authorization', operation: 'set', value: 'Bearer token' },
+        { header: 'Cookie', operation: 'remove' },
+      ]);
+      expect(rule.action.responseHeaders).toEqual([
+        { header: 'X-Debug', operation: 'append', value: '1' },
+      ]);
+      expect(rule.condition.urlFilter).toContain('api.example.com');
+      expect(rule.condition.resourceTypes).toContain('xmlhttprequest');
+    });
+
+    it('应该拒绝不支持 append 的请求头', async () => {
+      const rules = await applyRuleConfig({
+        headers: [
+          {
+            ...headerRule,
+            requestHeaders: [
+              { header: 'X-Env', operation: 'append', value: 'a' },
+            ],
+          },
+        ],
+      });
+
+      expect(rules).toHaveLength(0);
+      expect(networkService.getRuleStatus().errors[0].type).toBe('headers');
+    });
+
+    it('应该跳过禁用和空的请求头规则', async () => {
+      const rules = await applyRuleConfig({
+        headers: [
+          { ...headerRule, enabled: false },
+          { ...headerRule, requestHeaders: [], responseHeaders: [] },
+        ],
+      });
+
+      expect(rules).toHaveLength(0);
+    });
+  });
+
+  describe('规则语法类型', () => {
+    const baseRule = {
+      id: 'typed',
+      name: '类型规则',
+      enabled: true,
+      target: 'https://cdn.dev.com/x.js',
+    };
+
+    it('string 类型的带查询参数 URL 不应按正则处理', async () => {
+      const rule = {
+        ...baseRule,
+        source: 'https://a.com/x.js?v=1',
+        type: 'string' as const,
+      };
+      const [dnrRule] = await applyRuleConfig({ proxy: [rule] });
+
+      expect(dnrRule.condition.urlFilter).toBe('https://a.com/x.js?v=1');
+      expect(dnrRule.condition.regexFilter).toBeUndefined();
+      expect(dnrRule.action.redirect).toEqual({ url: rule.target });
+      expect(compileRule(rule).matches(rule.source)).toBe(true);
+    });
+
+    it('regex 类型即使没有捕获组也应使用 regexFilter', async () => {
+      const rule = {
+        ...baseRule,
+        source: 'https://a\\.com/x\\.js',
+        type: 'regex' as const,
+      };
+      const [dnrRule] = await applyRuleConfig({ proxy: [rule] });
+
+      expect(dnrRule.condition.regexFilter).toBe('https://a\\.com/x\\.js');
+      expect(dnrRule.condition.urlFilter).toBeUndefined();
+    });
+
+    it('glob 应转换为带捕获组的锚定正则', async () => {
+      const rule = {
+        ...baseRule,
+        source: 'https://cdn.com/**/app.*.js',
+        target: 'http://localhost:3000/$1/app.js',
+        type: 'glob' as const,
+      };
+      const [dnrRule] = await applyRuleConfig({ proxy: [rule] });
+
+      expect(dnrRule.condition.regexFilter).toBe(
+        '^https://cdn\\.com/(.*)/app\\.([^/]*)\\.js$'
+      );
+      expect(dnrRule.action.redirect!.regexSubstitution).toBe(
+        'http://localhost:3000/\\1/app.js'
+      );
+
+      const url = 'https://cdn.com/static/v2/app.abc123.js';
+      const compiled = compileRule(rule);
+      expect(compiled.matches(url)).toBe(true);
+      expect(compiled.matches('https://cdn.com/app.a/b.js')).toBe(false);
+      expect(compiled.getTargetUrl(url)).toBe(
+        'http://localhost:3000/static/v2/app.js'
+      );
+    });
+  });
+
+  describe('规则优先级', () => {
+    const groupA = createTestGroup({
+      id: 'group-a',
+      groupName: 'A',
+      ruleText: JSON.stringify({
+        proxy: [
+          { name: 'a1', source: 'https://a.com/app.js', target: 'https://a1.dev/app.js' },
+          { name: 'a2', source: 'https://b.com/app.js', target: 'https://a2.dev/app.js' },
+        ],
+      }),
+    });
+    const groupB = createTestGroup({
+      id: 'group-b',
+      groupName: 'B',
+      ruleText: JSON.stringify({
+        proxy: [
+          { name: 'b1', source: 'https://a.com/app.js', target: 'https://b1.dev/app.js' },
+          {
+            name: 'b2',
+            source: 'https://b.com/app.js',
+            target: 'https://b2.dev/app.js',
+            priority: 10,
+          },
+        ],
+      }),
+    });
+
+    it('应该按 priority、分组顺序和组内顺序分配唯一优先级', async () => {
+      await networkService.updateRules([groupA, groupB], true);
+
+      const addRules =
+        mockChrome.declarativeNetRequest.updateDynamicRules.mock.calls[0][0]
+          .addRules;
+      const priorities = Object.fromEntries(
+        addRules.map((rule: any) => [
+          rule.action.redirect.url,
+          rule.priority,
+        ])
+      );
+      expect(priorities).toEqual({
+        'https://b2.dev/app.js': 4,
+        'https://a1.dev/app.js': 3,
+        'https://a2.dev/app.js': 2,
+        'https://b1.dev/app.js': 1,
+      });
+    });
+
+    const getHitRuleNames = () =>
+      dispatchRequests(
+        ['https://a.com/app.js', 'https://b.com/app.js'].map(url => ({
+          url,
+          type: 'script',
+          tabId: 1,
+        }))
+      ).then(hits => hits.map((hit: any) => hit.data.ruleName));
+
+    it('日志应只上报实际生效的规则', async () => {
+      networkService.setupNetworkLogging(true, [groupA, groupB]);
+
+      expect(await getHitRuleNames()).toEqual(['a1', 'b2']);
+    });
+
+    it('调整分组顺序应改变生效规则', async () => {
+      networkService.setupNetworkLogging(true, [groupB, groupA]);
+
+      expect(await getHitRuleNames()).toEqual(['b1', 'b2']);
+    });
+  });
+
+  describe('断言排除规则', () => {
+    const group = createTestGroup({
+      ruleText: JSON.stringify({
+        proxy: [
+          {
+            name: 'no-json',
+            source: 'https://a.com/(.*)(?<!\\.json)$',
+            target: 'http://localhost:3000/$1',
+          },
+          { name: 'all', source: 'https://a.com/', target: 'https://b.com/' },
+        ],
+      }),
+    });
+
+    it('负向后行断言应生成优先级更高的 allow 规则', async () => {
+      await networkService.updateRules([group], true);
+
+      const addRules =
+        mockChrome.declarativeNetRequest.updateDynamicRules.mock.calls[0][0]
+          .addRules;
+      expect(
+        addRules.map((rule: any) => [
+          rule.action.type,
+          rule.condition.regexFilter ?? rule.condition.urlFilter,
+          rule.priority,
+        ])
+      ).toEqual([
+        ['allow', 'https://a.com/.*(?:\\.json)$', 3],
+        ['redirect', 'https://a.com/(.*)$', 2],
+        ['redirect', 'https://a.com/', 1],
+      ]);
+    });
+
+    it('排除的地址仍保留 CORS、自定义请求头与禁用缓存', async () => {
+      const corsGroup = createTestGroup({
+        ruleText: JSON.stringify({
+          proxy: [
+            {
+              name: 'no-json',
+              source: 'https://a.com/(.*)(?<!\\.json)$',
+              target: 'http://localhost:3000/$1',
+            },
+          ],
+          cors: ['a.com'],
+          headers: [
+            {
+              pattern: 'a.com',
+              requestHeaders: [{ header: 'X-Env', operation: 'set', value: 'dev' }],
+            },
+          ],
+          disableCache: true,
+        }),
+      });
+      await networkService.updateRules([corsGroup], true, {}, {}, [9]);
+
+      const addRules =
+        mockChrome.declarativeNetRequest.updateDynamicRules.mock.calls[0][0]
+          .addRules;
+      const [allowRule] = addRules.filter(
+        (rule: any) => rule.action.type === 'allow'
+      );
+      const headerRules = addRules.filter(
+        (rule: any) => rule.action.type === 'modifyHeaders'
+      );
+      const [disabledTabRule] =
+        mockChrome.declarativeNetRequest.updateSessionRules.mock.calls.at(-1)[0]
+          .addRules;
+
+      // 浏览器忽略优先级不高于命中 allow 规则的修改头部规则
+      expect(allowRule.condition.regexFilter).toBe(
+        'https://a.com/.*(?:\\.json)$'
+      );
+      expect(headerRules).toHaveLength(3);
+      headerRules.forEach((rule: any) => {
+        expect(rule.priority).toBeGreaterThan(allowRule.priority);
+        expect(rule.priority).toBeLessThan(disabledTabRule.priority);
+      });
+    });
+
+    it('无法精确转换的断言应报错而不生成规则', async () => {
+      const rules = await applyRuleConfig({
+        proxy: [
+          {
+            name: 'bad',
+            source: 'https://a.com/(?!api)(.*)',
+            target: 'http://localhost:3000/$1',
+          },
+        ],
+      });
+
+      expect(rules).toHaveLength(0);
+      expect(networkService.getRuleStatus().errors[0].error).toContain(
+        'Cannot translate lookaround exactly'
+      );
+    });
+
+    it('命中排除条件的请求与 allow 规则一致，不再交给后面的规则', async () => {
+      networkService.setupNetworkLogging(true, [group]);
+
+      const hits = await dispatchRequests(
+        ['https://a.com/data.json', 'https://a.com/app.js'].map(url => ({
+          url,
+          type: 'xmlhttprequest',
+          tabId: 1,
+        }))
+      );
+      expect(hits).toEqual([
+        expect.objectContaining({
+          data: expect.objectContaining({
+            originalUrl: 'https://a.com/app.js',
+            ruleName: 'no-json',
+            targetUrl: 'http://localhost:3000/app.js',
+          }),
+        }),
+      ]);
+    });
+  });
+
+  describe('规则配额与正则校验', () => {
+    const regexGroup = (id: string, groupName: string) =>
+      createTestGroup({
+        id,
+        groupName,
+        ruleText: JSON.stringify({
+          proxy: [
+            {
+              name: `${id}-regex`,
+              source: `(.*).${id}.com/(.*)`,
+              target: 'https://$1.dev.com/$2',
+            },
+          ],
+        }),
+      });
+
+    const getAddedRules = () =>
+      mockChrome.declarativeNetRequest.updateDynamicRules.mock.calls.at(-1)[0]
+        .addRules;
+
+    it('浏览器不支持的正则应跳过，并记录所属规则组和规则', async () => {
+      mockChrome.declarativeNetRequest.isRegexSupported.mockResolvedValueOnce({
+        isSupported: false,
+        reason: 'memoryLimitExceeded',
+      });
+
+      await networkService.updateRules([regexGroup('g1', '分组一')], true);
+
+      expect(
+        mockChrome.declarativeNetRequest.updateDynamicRules
+      ).not.toHaveBeenCalled();
+      expect(networkService.getRuleStatus().errors).toEqual([
+        expect.objectContaining({
+          type: 'proxy',
+          groupId: 'g1',
+          groupName: '分组一',
+          ruleName: 'g1-regex',
+          error: expect.stringContaining('memoryLimitExceeded'),
+        }),
+      ]);
+      // 未写入浏览器的规则不会显示命中提示
+      expect(
+        await dispatchRequests([
+          { url: 'https://a.g1.com/app.js', type: 'script', tabId: 1 },
+        ])
+      ).toEqual([]);
+    });
+
+    it('超出配额时应停用排在后面的规则组', async () => {
+      mockChrome.declarativeNetRequest.MAX_NUMBER_OF_REGEX_RULES = 1;
+      try {
+        await networkService.updateRules(
+          [
+            regexGroup('g1', '分组一'),
+            regexGroup('g2', '分组二'),
+            regexGroup('g3', '分组三'),
+          ],
+          true
+        );
+      } finally {
+        delete mockChrome.declarativeNetRequest.MAX_NUMBER_OF_REGEX_RULES;
+      }
+
+      expect(getAddedRules()).toHaveLength(1);
+      expect(networkService.getRuleStatus().droppedGroups).toEqual([
+        { id: 'g2', groupName: '分组二' },
+        { id: 'g3', groupName: '分组三' },
+      ]);
+      const hits = await dispatchRequests([
+        { url: 'https://a.g1.com/app.js', type: 'script', tabId: 1 },
+        { url: 'https://a.g2.com/app.js', type: 'script', tabId: 1 },
+      ]);
+      expect(hits.map((hit: any) => hit.data.ruleName)).toEqual(['g1-regex']);
+    });
+
+    it('浏览器拒绝规则时应记录错误', async () => {
+      mockChrome.declarativeNetRequest.updateDynamicRules.mockRejectedValueOnce(
+        new Error('Rule quota exceeded')
+      );
+
+      await networkService.updateRules([regexGroup('g1', '分组一')], true);
+      expect(networkService.getRuleStatus().applyError).toContain(
+        'Rule quota exceeded'
+      );
+    });
+  });
+
+  describe('增量更新', () => {
+    const groupA = createTestGroup({
+      id: 'group-a',
+      ruleText: JSON.stringify({
+        proxy: [
+          { id: 'a1', source: 'https://a.com/', target: 'https://a.dev/' },
+          {
+            id: 'a2',
+            source: 'https://a.com/(.*)(?<!\\.json)$',
+            target: 'http://localhost:3000/$1',
+          },
+        ],
+        cors: ['a.com'],
+      }),
+    });
+    const groupB = createTestGroup({
+      id: 'group-b',
+      ruleText: JSON.stringify({
+        proxy: [
+          { id: 'b1', source: 'https://b.com/', target: 'https://b.dev/' },
+        ],
+      }),
+    });
+
+    afterEach(() => {
+      mockChrome.declarativeNetRequest.getDynamicRules.mockImplementation(() =>
+        Promise.resolve([])
+      );
+      mockChrome.declarativeNetRequest.updateDynamicRules.mockImplementation(
+        () => Promise.resolve()
+      );
+    });
+
+    // 模拟浏览器保存已应用的动态规则
+    const applyToBrowser = () => {
+      let dynamicRules: any[] = [];
+      mockChrome.declarativeNetRequest.getDynamicRules.mockImplementation(() =>
+        Promise.resolve(dynamicRules)
+      );
+      mockChrome.declarativeNetRequest.updateDynamicRules.mockImplementation(
+        ({ removeRuleIds = [], addRules = [] }: any) => {
+          dynamicRules = [
+            ...dynamicRules.filter(rule => !removeRuleIds.includes(rule.id)),
+            ...addRules,
+          ];
+          return Promise.resolve();
+        }
+      );
+      return () => dynamicRules;
+    };
+
+    it('同一规则每次更新得到相同的 ID，互不重复', async () => {
+      const getDynamicRules = applyToBrowser();
+
+      await networkService.updateRules([groupA, groupB], true);
+      const firstIds = getDynamicRules().map(rule => rule.id);
+      await new NetworkService().updateRules([groupA, groupB], true);
+
+      expect(getDynamicRules().map(rule => rule.id)).toEqual(firstIds);
+      expect(new Set(firstIds).size).toBe(firstIds.length);
+      expect(
+        mockChrome.declarativeNetRequest.updateDynamicRules
+      ).toHaveBeenCalledTimes(1);
+    });
+
+    it('删除前面的规则后其余规则的 ID 不变', async () => {
+      const getDynamicRules = applyToBrowser();
+      const group = (proxy: string[][]) =>
+        createTestGroup({ id: 'group-c', ruleText: JSON.stringify({ proxy }) });
+      const getRuleId = () =>
+        getDynamicRules().find(
+          rule => rule.condition.urlFilter === 'https://d.com/'
+        ).id;
+
+      await networkService.updateRules(
+        [
+          group([
+            ['https://c.com/', 'https://c.dev/'],
+            ['https://d.com/', 'https://d.dev/'],
+          ]),
+        ],
+        true
+      );
+      const ruleId = getRuleId();
+      await networkService.updateRules(
+        [group([['https://d.com/', 'https://d.dev/']])],
+        true
+      );
+
+      expect(getRuleId()).toBe(ruleId);
+    });
+
+    it('停用一个规则组只移除该组的规则', async () => {
+      const getDynamicRules = applyToBrowser();
+
+      await networkService.updateRules([groupA, groupB], true);
+      const rulesA = getDynamicRules().filter(
+        rule => rule.condition.urlFilter !== 'https://b.com/'
+      );
+      const [ruleB] = getDynamicRules().filter(
+        rule => rule.condition.urlFilter === 'https://b.com/'
+      );
+
+      await networkService.updateRules(
+        [groupA, { ...groupB, enabled: false }],
+        true
+      );
+
+      expect(
+        mockChrome.declarativeNetRequest.updateDynamicRules
+      ).toHaveBeenLastCalledWith({ removeRuleIds: [ruleB.id], addRules: [] });
+      expect(getDynamicRules()).toEqual(rulesA);
+    });
+  });
+
+  describe('Service Worker 重启', () => {
+    const group = createTestGroup({
+      ruleText: JSON.stringify({
+        proxy: [
+          { name: 'a-to-b', source: 'https://a.com/', target: 'https://b.com/' },
+        ],
+      }),
+    });
+
+    it('唤醒后监听器从会话存储恢复规则状态并上报命中', async () => {
+      mockChrome.tabs.sendMessage.mockResolvedValue(undefined);
+      await networkService.updateRules([group], true);
+
+      // 模拟 Service Worker 重启：内存状态丢失，只在顶层注册监听器
+      const restarted = new NetworkService();
+      restarted.registerListeners();
+      const listener =
+        mockChrome.webRequest.onBeforeRequest.addListener.mock.calls.at(-1)[0];
+      listener({ url: 'https://a.com/x', type: 'script', tabId: 1 });
+
+      await vi.waitFor(() =>
+        expect(mockChrome.tabs.sendMessage).toHaveBeenCalledWith(
+          1,
+          expect.objectContaining({
+            type: 'PROXY_HIT',
+            data: expect.objectContaining({
+              ruleName: 'a-to-b',
+              targetUrl: 'https://b.com/',
+            }),
+          })
+        )
+      );
+      const [redirectRule] =
+        mockChrome.declarativeNetRequest.updateDynamicRules.mock.calls[0][0]
+          .addRules;
+      mockChrome.declarativeNetRequest.getMatchedRules.mockResolvedValueOnce({
+        rulesMatchedInfo: [
+          {
+            rule: { ruleId: redirectRule.id, rulesetId: '_dynamic' },
+            tabId: 1,
+            timeStamp: 100,
+          },
+        ],
+      });
+      expect(await restarted.getMatchedRules(1)).toEqual([
+        expect.objectContaining({
+          ruleName: 'a-to-b',
+          source: 'https://a.com/',
+        }),
+      ]);
+    });
+
+    it('监听器只注册一次', async () => {
+      networkService.registerListeners();
+      await networkService.updateRules([group], true);
+      await networkService.updateRules([group], false);
+
+      expect(
+        mockChrome.webRequest.onBeforeRequest.addListener
+      ).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('浏览器上报的命中', () => {
+    const group = createTestGroup({
+      id: 'hit-group',
+      groupName: '命中分组',
+      ruleText: JSON.stringify({
+        proxy: [
+          { name: 'a-to-b', source: 'https://a.com/', target: 'https://b.com/' },
+          { name: 'no-ads', source: 'https://ads.com/', action: 'block' },
+        ],
+        cors: ['a.com'],
+      }),
+    });
+
+    const getRuleId = (actionType: string) =>
+      mockChrome.declarativeNetRequest.updateDynamicRules.mock.calls
+        .at(-1)[0]
+        .addRules.find((rule: any) => rule.action.type === actionType).id;
+
+    afterEach(() => {
+      delete mockChrome.declarativeNetRequest.onRuleMatchedDebug;
+    });
+
+    it('onRuleMatchedDebug 可用时按规则 ID 提示命中，不再用 webRequest 重新匹配', async () => {
+      mockChrome.declarativeNetRequest.onRuleMatchedDebug = {
+        addListener: vi.fn(),
+      };
+      mockChrome.tabs.sendMessage.mockResolvedValue(undefined);
+      await networkService.updateRules([group], true);
+      vi.mocked(compileRule).mockClear();
+
+      const debugListener =
+        mockChrome.declarativeNetRequest.onRuleMatchedDebug.addListener.mock
+          .calls[0][0];
+      const request = {
+        url: 'https://a.com/x',
+        tabId: 1,
+        type: 'script',
+        method: 'get',
+      };
+      debugListener({
+        request,
+        rule: { ruleId: getRuleId('redirect'), rulesetId: '_dynamic' },
+      });
+      mockChrome.webRequest.onBeforeRequest.addListener.mock.calls[0][0](
+        request
+      );
+
+      await vi.waitFor(() =>
+        expect(mockChrome.tabs.sendMessage).toHaveBeenCalledWith(1, {
+          type: 'PROXY_HIT',
+          data: expect.objectContaining({
+            ruleName: 'a-to-b',
+            targetUrl: 'https://b.com/',
+            method: 'GET',
+          }),
+        })
+      );
+      expect(mockChrome.tabs.sendMessage).toHaveBeenCalledTimes(1);
+      // 目标地址由缓存的编译结果计算，不会为每次命中重新编译
+      expect(compileRule).not.toHaveBeenCalled();
+    });
+
+    it('getMatchedRules 应还原为源规则，忽略没有映射的规则', async () => {
+      await networkService.updateRules([group], true);
+      mockChrome.declarativeNetRequest.getMatchedRules.mockResolvedValueOnce({
+        rulesMatchedInfo: [
+          {
+            rule: { ruleId: getRuleId('block'), rulesetId: '_dynamic' },
+            tabId: 2,
+            timeStamp: 100,
+          },
+          {
+            rule: { ruleId: getRuleId('modifyHeaders'), rulesetId: '_dynamic' },
+            tabId: 2,
+            timeStamp: 101,
+          },
+          {
+            rule: { ruleId: getRuleId('block'), rulesetId: '_session' },
+            tabId: 2,
+            timeStamp: 102,
+          },
+        ],
+      });
+
+      const hits = await networkService.getMatchedRules(2);
+
+      expect(
+        mockChrome.declarativeNetRequest.getMatchedRules
+      ).toHaveBeenCalledWith({ tabId: 2 });
+      expect(hits).toEqual([
+        {
+          ruleId: getRuleId('block'),
+          tabId: 2,
+          timeStamp: 100,
+          action: 'block',
+          ruleName: 'no-ads',
+          source: 'https://ads.com/',
+          target: undefined,
+          groupId: 'hit-group',
+          groupName: '命中分组',
+        },
+      ]);
+    });
+  });
+
+  describe('请求匹配复用编译结果', () => {
+    // 10 个规则组共 1000 条规则，字符串与正则规则各半
+    const groups = Array.from({ length: 10 }, (_, groupIndex) =>
+      createTestGroup({
+        id: `bench-${groupIndex}`,
+        ruleText: JSON.stringify({
+          proxy: Array.from({ length: 100 }, (_, index) => {
+            const n = groupIndex * 100 + index;
+            return n % 2 === 0
+              ? {
+                  name: `rule-${n}`,
+                  source: `https://s${n}.example.com/`,
+                  target: `http://localhost:3000/${n}/`,
+                }
+              : {
+                  name: `rule-${n}`,
+                  source: `https://s${n}\\.example\\.com/(.*)\\.js`,
+                  target: `http://localhost:3000/${n}/$1.js`,
+                };
+          }),
+        }),
+      })
+    );
+    // 一半的 URL 命中规则，另一半需要遍历全部规则
+    const urls = Array.from(
+      { length: 10000 },
+      (_, index) => `https://s${index % 2000}.example.com/app/${index}.js`
+    );
+
+    const requests = urls.map(url => ({ url, type: 'script', tabId: 1 }));
+
+    it('1000 条规则匹配 10000 个 URL 时每条规则只编译一次', async () => {
+      networkService.setupNetworkLogging(true, groups);
+      vi.mocked(compileRule).mockClear();
+
+      const hits = await dispatchRequests(requests);
+
+      // 每条规则只编译一次，之后的请求只执行预编译的正则
+      expect(compileRule).toHaveBeenCalledTimes(1000);
+      expect(hits).toHaveLength(5000);
+      expect(hits[3].data).toMatchObject({
+        originalUrl: urls[3],
+        ruleName: 'rule-3',
+        targetUrl: 'http://localhost:3000/3/app/3.js',
+      });
+    });
+
+    it('规则组未修改时复用解析、编译结果', async () => {
+      networkService.setupNetworkLogging(true, groups);
+      await dispatchRequests(requests.slice(0, 1));
+      vi.mocked(compileRule).mockClear();
+
+      networkService.setupNetworkLogging(true, [
+        { ...groups[0], updateTime: 'changed' },
+        ...groups.slice(1),
+      ]);
+      const hits = await dispatchRequests(requests.slice(0, 1));
+
+      // 只重新编译修改过的规则组
+      expect(compileRule).toHaveBeenCalledTimes(100);
+      expect(hits).toHaveLength(1);
+    });
+  });
+
+  describe('变量', () => {
+    it('修改全局变量后整组规则重新指向新地址', async () => {
+      const group = createTestGroup({
+        ruleText: JSON.stringify({
+          proxy: [['https://cdn.example.com/(.*)', '${DEV_HOST}/$1']],
+        }),
+      });
+      const getRedirect = () =>
+        mockChrome.declarativeNetRequest.updateDynamicRules.mock.calls
+          .at(-1)[0]
+          .addRules.find((rule: any) => rule.action.type === 'redirect')
+          .action.redirect;
+      const url = 'https://cdn.example.com/app.js';
+      const findTarget = async () => {
+        const [hit] = await dispatchRequests([{ url, tabId: 1 }]);
+        return hit?.data.targetUrl;
+      };
+
+      await networkService.updateRules([group], true, {
+        vars: { DEV_HOST: 'http://127.0.0.1:3000' },
+      });
+      expect(getRedirect()).toEqual({
+        regexSubstitution: 'http://127.0.0.1:3000/\\1',
+      });
+      expect(await findTarget()).toBe('http://127.0.0.1:3000/app.js');
+
+      await networkService.updateRules([group], true, {
+        vars: { DEV_HOST: 'http://127.0.0.1:4000' },
+      });
+      expect(getRedirect()).toEqual({
+        regexSubstitution: 'http://127.0.0.1:4000/\\1',
+      });
+      expect(await findTarget()).toBe('http://127.0.0.1:4000/app.js');
+    });
+
+    it('未定义的变量记录为规则错误', async () => {
+      const group = createTestGroup({
+        ruleText: JSON.stringify({ proxy: [['a.com', '${DEV_HOST}/a']] }),
+      });
+      await networkService.updateRules([group], true);
+
+      expect(networkService.getRuleStatus().errors).toEqual([
+        expect.objectContaining({
+          type: 'proxy',
+          error: expect.stringContaining('Undefined variable: ${DEV_HOST}'),
+        }),
+      ]);
+    });
+  });
+
+  describe('标签页规则', () => {
+    const tabGroup = createTestGroup({
+      id: 'tab-group',
+      enabled: false,
+      ruleText: JSON.stringify({
+        proxy: [
+          ['https://cdn.example.com/app.js', 'http://localhost:3000/app.js'],
+        ],
+      }),
+    });
+    const globalGroup = createTestGroup({
+      id: 'global-group',
+      enabled: true,
+      ruleText: JSON.stringify({
+        proxy: [
+          [
+            'https://cdn.example.com/vendor.js',
+            'http://localhost:3000/vendor.js',
+          ],
+        ],
+      }),
+    });
+
+    const getHitTabIds = () =>
+      mockChrome.tabs.sendMessage.mock.calls.map((call: any[]) => call[0]);
+
+    it('仅在标签页启用的规则组生成限定 tabIds 的会话规则', async () => {
+      await networkService.updateRules(
+        [tabGroup, globalGroup],
+        true,
+        {},
+        {
+          'tab-group': [7],
+          'global-group': [7],
+        }
+      );
+
+      const dynamicRules =
+        mockChrome.declarativeNetRequest.updateDynamicRules.mock.calls[0][0]
+          .addRules;
+      expect(dynamicRules).toHaveLength(1);
+      expect(dynamicRules[0].condition.tabIds).toBeUndefined();
+
+      const sessionRules =
+        mockChrome.declarativeNetRequest.updateSessionRules.mock.calls.at(-1)[0]
+          .addRules;
+      expect(sessionRules).toEqual([
+        expect.objectContaining({
+          action: expect.objectContaining({ type: 'redirect' }),
+          condition: expect.objectContaining({ tabIds: [7] }),
+        }),
+      ]);
+      expect(sessionRules[0].id).not.toBe(dynamicRules[0].id);
+
+      await dispatchRequests(
+        [7, 8].map(tabId => ({ url: 'https://cdn.example.com/app.js', tabId }))
+      );
+      expect(getHitTabIds()).toEqual([7]);
+    });
+
+    it('停用代理的标签页生成最高优先级的 allow 规则', async () => {
+      await networkService.updateRules([globalGroup], true, {}, {}, [9]);
+
+      const [allowRule] =
+        mockChrome.declarativeNetRequest.updateSessionRules.mock.calls.at(-1)[0]
+          .addRules;
+      const [redirectRule] =
+        mockChrome.declarativeNetRequest.updateDynamicRules.mock.calls.at(-1)[0]
+          .addRules;
+      expect(allowRule).toMatchObject({
+        action: { type: 'allow' },
+        condition: { tabIds: [9] },
+      });
+      expect(allowRule.condition.resourceTypes).toContain('main_frame');
+      expect(allowRule.priority).toBeGreaterThan(redirectRule.priority);
+
+      await dispatchRequests(
+        [8, 9].map(tabId => ({
+          url: 'https://cdn.example.com/vendor.js',
+          tabId,
+        }))
+      );
+      expect(getHitTabIds()).toEqual([8]);
+    });
+
+    it('标签页关闭后移除会话规则，保留回显来源的 CORS 规则', async () => {
+      const tabGroups = { 'tab-group': [7] };
+      await networkService.updateRules([tabGroup], true, {}, tabGroups);
+      const [tabRule] =
+        mockChrome.declarativeNetRequest.updateSessionRules.mock.calls.at(-1)[0]
+          .addRules;
+      mockChrome.declarativeNetRequest.getSessionRules.mockResolvedValue([
+        tabRule,
+        { id: 1_000_000_000, priority: 2, action: {}, condition: {} },
+      ]);
+      mockChrome.declarativeNetRequest.updateSessionRules.mockClear();
+
+      await networkService.updateRules([tabGroup], true, {}, {});
+
+      expect(
+        mockChrome.declarativeNetRequest.updateSessionRules
+      ).toHaveBeenCalledWith({ removeRuleIds: [tabRule.id], addRules: [] });
+      mockChrome.declarativeNetRequest.getSessionRules.mockResolvedValue([]);
+    });
+  });
+
+  describe('缓存控制', () => {
+    const cacheGroup = (extra: Record<string, unknown> = {}) =>
+      createTestGroup({
+        ruleText: JSON.stringify({
+          proxy: [
+            ['https://cdn.example.com/app.js', 'http://localhost:3000/app.js'],
+            ['(.*).example.com/(.*)', 'https://$1.dev.com/$2'],
+          ],
+          ...extra,
+        }),
+      });
+
+    const getAddedRules = () =>
+      mockChrome.declarativeNetRequest.updateDynamicRules.mock.calls.at(-1)[0]
+        .addRules;
+
+    it('全局禁用缓存时应为静态目标来源生成去缓存规则', async () => {
+      await networkService.updateRules([cacheGroup()], true, {
+        disableCache: true,
+      });
+
+      const noCacheRules = getAddedRules().filter(
+        (rule: any) => rule.action.type === 'modifyHeaders'
+      );
+      expect(noCacheRules).toHaveLength(1);
+      expect(noCacheRules[0].condition.urlFilter).toBe(
+        '|http://localhost:3000/'
+      );
+      expect(noCacheRules[0].action.responseHeaders).toEqual([
+        { header: 'Cache-Control', operation: 'set', value: 'no-store' },
+        { header: 'ETag', operation: 'remove' },
+        { header: 'Last-Modified', operation: 'remove' },
+      ]);
+      // 动态目标来源无法静态确定，记录错误而不是扩大范围
+      expect(networkService.getRuleStatus().errors).toHaveLength(1);
+    });
+
+    it('transform 规则按改写后的协议与主机确定目标来源', async () => {
+      const group = createTestGroup({
+        ruleText: JSON.stringify({
+          proxy: [
+            {
+              source: 'https://api.example.com/',
+              transform: { scheme: 'http', host: 'localhost', port: 8080 },
+            },
+            { source: 'https://cdn.example.com/', transform: { path: '/v2/' } },
+          ],
+        }),
+      });
+      await networkService.updateRules([group], true, { disableCache: true });
+
+      const rules = getAddedRules();
+      expect(
+        rules.find((rule: any) => rule.action.type === 'redirect').action
+          .redirect
+      ).toEqual({
+        transform: { scheme: 'http', host: 'localhost', port: '8080' },
+      });
+      expect(
+        rules
+          .filter((rule: any) => rule.action.type === 'modifyHeaders')
+          .map((rule: any) => rule.condition.urlFilter)
+      ).toEqual(['|http://localhost:8080/']);
+      // 只改路径的 transform 无法确定来源
+      expect(networkService.getRuleStatus().errors).toHaveLength(1);
+    });
+
+    it('分组配置应覆盖全局禁用缓存设置', async () => {
+      await networkService.updateRules(
+        [cacheGroup({ disableCache: false })],
+        true,
+        { disableCache: true }
+      );
+
+      expect(
+        getAddedRules().some(
+          (rule: any) => rule.action.type === 'modifyHeaders'
+        )
+      ).toBe(false);
+    });
+
+    it('规则集变化时应清除受影响来源的缓存', async () => {
+      const settings = { clearCacheOnUpdate: true };
+
+      await networkService.updateRules([cacheGroup()], true, settings);
+      await networkService.updateRules([cacheGroup()], true, settings);
+      expect(mockChrome.browsingData.removeCache).toHaveBeenCalledTimes(1);
+      expect(mockChrome.browsingData.removeCache).toHaveBeenCalledWith({
+        origins: ['https://cdn.example.com', 'http://localhost:3000'],
+      });
+
+      // 关闭规则后也要清除旧规则涉及的来源
+      await networkService.updateRules([cacheGroup()], false, settings);
+      expect(mockChrome.browsingData.removeCache).toHaveBeenCalledTimes(2);
     });
   });
 
@@ -493,8 +1958,7 @@ describe('NetworkService', () => {
 
       const startTime = performance.now();
       testUrls.forEach(url => {
-        // @ts-ignore
-        networkService.isUrlMatched(url, pattern);
+        isUrlMatched(url, pattern);
       });
       const endTime = performance.now();
 
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ProfileService } from '../../entrypoints/background/services/ProfileService';
+import { RuleService } from '../../entrypoints/background/services/RuleService';
+import { setupChromeEnvironment } from '../mocks/chrome';
+import { createTestGroup } from '../utils/testUtils';
+
+/**
+ * 方案服务单元测试
+ */
+describe('ProfileService', () => {
+  let mockChrome: ReturnType<typeof setupChromeEnvironment>;
+  let profileService: ProfileService;
+
+  const loadGroupStates = async () =>
+    (await RuleService.getInstance().loadGroups()).map(group => [
+      group.id,
+      group.enabled,
+    ]);
+
+  beforeEach(() => {
+    mockChrome = setupChromeEnvironment();
+    mockChrome.storage._setStorage({
+      xswitch_groups: [
+        createTestGroup({ id: 'local', groupName: '本地', enabled: true }),
+        createTestGroup({ id: 'mock', groupName: '模拟', enabled: false }),
+        createTestGroup({ id: 'debug', groupName: '调试', enabled: true }),
+      ],
+    });
+    profileService = ProfileService.getInstance();
+  });
+
+  it('未指定规则组时保存当前启用的规则组', async () => {
+    const profile = await profileService.createProfile(' local ');
+
+    expect(profile).toMatchObject({
+      name: 'local',
+      groupIds: ['local', 'debug'],
+    });
+    await expect(profileService.createProfile('local')).rejects.toThrow(
+      '方案名称已存在'
+    );
+    await expect(
+      profileService.createProfile('other', ['missing'])
+    ).rejects.toThrow('方案包含不存在的规则组');
+  });
+
+  it('激活方案时一次写入所有规则组的启用状态', async () => {
+    const profile = await profileService.createProfile('staging-mock', [
+      'mock',
+    ]);
+    mockChrome.storage.local.set.mockClear();
+
+    await profileService.activateProfile(profile.id);
+
+    expect(mockChrome.storage.local.set).toHaveBeenCalledTimes(1);
+    expect(await loadGroupStates()).toEqual([
+      ['local', false],
+      ['mock', true],
+      ['debug', false],
+    ]);
+    expect((await profileService.loadProfiles()).activeProfileId).toBe(
+      profile.id
+    );
+  });
+
+  it('手动切换规则组后方案不再视为激活', async () => {
+    const profile = await profileService.createProfile('local');
+    await profileService.activateProfile(profile.id);
+    expect((await profileService.getActiveProfile())?.name).toBe('local');
+
+    await RuleService.getInstance().toggleGroup('mock');
+
+    expect(await profileService.getActiveProfile()).toBeUndefined();
+  });
+
+  it('更新和删除方案', async () => {
+    const profile = await profileService.createProfile('prod-debug');
+
+    const updated = await profileService.updateProfile(profile.id, {
+      name: 'debug',
+      groupIds: ['debug', 'debug'],
+    });
+    expect(updated).toMatchObject({ name: 'debug', groupIds: ['debug'] });
+
+    await profileService.deleteProfile(profile.id);
+    expect((await profileService.loadProfiles()).profiles).toEqual([]);
+    await expect(profileService.deleteProfile(profile.id)).rejects.toThrow(
+      '方案不存在'
+    );
+  });
+});
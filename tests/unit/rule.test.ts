@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RuleService } from '../../entrypoints/background/services/RuleService';
+import { setupChromeEnvironment } from '../mocks/chrome';
+import { createTestGroup } from '../utils/testUtils';
+
+/**
+ * 规则服务单元测试
+ */
+describe('RuleService', () => {
+  let ruleService: RuleService;
+
+  beforeEach(() => {
+    const mockChrome = setupChromeEnvironment();
+    mockChrome.storage._setStorage({
+      xswitch_groups: [
+        createTestGroup({
+          id: 'shop',
+          groupName: '商城',
+          enabled: false,
+          activateOn: ['shop.example.com'],
+        }),
+        createTestGroup({
+          id: 'admin',
+          groupName: '后台',
+          enabled: false,
+          activateOn: ['admin.example.com/users', '(.*)\\.internal/'],
+        }),
+        createTestGroup({
+          id: 'manual',
+          groupName: '手动',
+          enabled: true,
+          activateOn: ['shop.example.com'],
+        }),
+      ],
+    });
+    ruleService = RuleService.getInstance();
+  });
+
+  describe('自动启用', () => {
+    it('按前台页面地址匹配规则组，不计入已手动启用的规则组', async () => {
+      expect(
+        await ruleService.getAutoGroupIds('https://shop.example.com/cart')
+      ).toEqual(['shop']);
+      expect(
+        await ruleService.getAutoGroupIds('https://admin.example.com/users/1')
+      ).toEqual(['admin']);
+      expect(
+        await ruleService.getAutoGroupIds('http://api.internal/health')
+      ).toEqual(['admin']);
+      expect(
+        await ruleService.getAutoGroupIds('https://www.example.com/')
+      ).toEqual([]);
+      expect(await ruleService.getAutoGroupIds(undefined)).toEqual([]);
+    });
+
+    it('保存时校验地址模式', async () => {
+      await expect(
+        ruleService.updateGroup('shop', { activateOn: ['(.*)(?<=a)b('] })
+      ).rejects.toThrow('自动启用的地址模式无效');
+      await expect(
+        ruleService.updateGroup('shop', {
+          activateOn: 'shop.example.com' as unknown as string[],
+        })
+      ).rejects.toThrow('自动启用的地址模式必须是字符串数组');
+    });
+  });
+
+  describe('定时停用', () => {
+    const loadGroup = async (groupId: string) =>
+      (await ruleService.loadGroups()).find(group => group.id === groupId);
+
+    it('启用规则组并记录自动停用时间，手动切换后清除', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+      await ruleService.enableGroupUntil('shop', expiresAt);
+      expect(await loadGroup('shop')).toMatchObject({
+        enabled: true,
+        expiresAt,
+      });
+
+      await ruleService.toggleGroup('shop');
+      await ruleService.toggleGroup('shop');
+      expect(await loadGroup('shop')).toMatchObject({ enabled: true });
+      expect((await loadGroup('shop'))?.expiresAt).toBeUndefined();
+
+      await expect(
+        ruleService.enableGroupUntil('shop', '2000-01-01T00:00:00.000Z')
+      ).rejects.toThrow('自动停用时间必须晚于当前时间');
+    });
+
+    it('停用已到期的规则组，返回被停用的规则组', async () => {
+      const now = Date.now();
+      await ruleService.enableGroupUntil(
+        'shop',
+        new Date(now + 1000).toISOString()
+      );
+      await ruleService.enableGroupUntil(
+        'admin',
+        new Date(now + 60 * 60 * 1000).toISOString()
+      );
+
+      expect(await ruleService.expireGroups(now)).toEqual([]);
+
+      const expired = await ruleService.expireGroups(now + 1000);
+      expect(expired.map(group => group.id)).toEqual(['shop']);
+      expect(await loadGroup('shop')).toMatchObject({ enabled: false });
+      expect((await loadGroup('shop'))?.expiresAt).toBeUndefined();
+      expect(await loadGroup('admin')).toMatchObject({ enabled: true });
+    });
+  });
+
+  describe('链接开关', () => {
+    it('按名称或ID在标签页启用规则组，忽略不存在的规则组', async () => {
+      expect(await ruleService.applyUrlSwitch(7, '商城, admin, missing')).toBe(
+        true
+      );
+      expect(await ruleService.getTabGroupIds(7)).toEqual(['shop', 'admin']);
+      expect(await ruleService.getTabGroupIds(8)).toEqual([]);
+
+      // 重复打开同一链接不再触发更新
+      expect(await ruleService.applyUrlSwitch(7, '商城')).toBe(false);
+    });
+
+    it('off 停用标签页的代理，on 或启用规则组时恢复', async () => {
+      await ruleService.applyUrlSwitch(7, 'shop');
+
+      expect(await ruleService.applyUrlSwitch(7, 'off')).toBe(true);
+      expect(await ruleService.getTabGroupIds(7)).toEqual([]);
+      expect(await ruleService.loadDisabledTabIds()).toEqual([7]);
+
+      expect(await ruleService.applyUrlSwitch(7, 'ON')).toBe(true);
+      expect(await ruleService.loadDisabledTabIds()).toEqual([]);
+
+      await ruleService.applyUrlSwitch(7, 'off');
+      expect(await ruleService.applyUrlSwitch(7, 'shop')).toBe(true);
+      expect(await ruleService.loadDisabledTabIds()).toEqual([]);
+      expect(await ruleService.getTabGroupIds(7)).toEqual(['shop']);
+    });
+
+    it('标签页关闭后清除启用的规则组与停用状态', async () => {
+      await ruleService.applyUrlSwitch(7, 'off');
+
+      expect(await ruleService.removeTab(7)).toBe(true);
+      expect(await ruleService.loadDisabledTabIds()).toEqual([]);
+      expect(await ruleService.removeTab(7)).toBe(false);
+    });
+  });
+});
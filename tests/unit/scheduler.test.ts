@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UpdateScheduler } from '../../entrypoints/utils/scheduler';
+
+/**
+ * 更新调度器单元测试
+ */
+describe('UpdateScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // 手动控制结束时间的任务
+  const createControlledTask = () => {
+    const runs: Array<() => void> = [];
+    let active = 0;
+    let maxActive = 0;
+    const task = vi.fn(
+      () =>
+        new Promise<void>(resolve => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          runs.push(() => {
+            active--;
+            resolve();
+          });
+        })
+    );
+    return { task, runs, getMaxActive: () => maxActive };
+  };
+
+  it('防抖时间内的多次调度只执行一次', async () => {
+    const task = vi.fn(() => Promise.resolve());
+    const scheduler = new UpdateScheduler(task, 50);
+
+    const results = [scheduler.schedule(), scheduler.schedule()];
+    await vi.advanceTimersByTimeAsync(30);
+    results.push(scheduler.schedule());
+    await vi.advanceTimersByTimeAsync(50);
+
+    await Promise.all(results);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('执行期间的调度在当前执行结束后合并为一次', async () => {
+    const { task, runs, getMaxActive } = createControlledTask();
+    const scheduler = new UpdateScheduler(task, 10);
+
+    const first = scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(10);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    let secondDone = false;
+    const second = scheduler.schedule().then(() => {
+      secondDone = true;
+    });
+    await vi.advanceTimersByTimeAsync(10);
+    const third = scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(10);
+    // 前一次尚未结束，不会并发执行
+    expect(task).toHaveBeenCalledTimes(1);
+
+    runs[0]();
+    await first;
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(secondDone).toBe(false);
+
+    runs[1]();
+    await Promise.all([second, third]);
+    await vi.advanceTimersByTimeAsync(10);
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(getMaxActive()).toBe(1);
+  });
+
+  it('执行失败时拒绝本批调度，之后的调度正常执行', async () => {
+    const task = vi
+      .fn<() => Promise<void>>()
+      .mockRejectedValueOnce(new Error('apply failed'))
+      .mockResolvedValue(undefined);
+    const scheduler = new UpdateScheduler(task, 10);
+
+    const failed = scheduler.schedule();
+    const assertion = expect(failed).rejects.toThrow('apply failed');
+    await vi.advanceTimersByTimeAsync(10);
+    await assertion;
+
+    const next = scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(10);
+    await expect(next).resolves.toBeUndefined();
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
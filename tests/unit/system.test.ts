@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MessageController } from '../../entrypoints/background/controllers/MessageController';
+import { SystemService } from '../../entrypoints/background/services/SystemService';
+import { ApiRequestType } from '../../entrypoints/background/types/api';
+import { setupChromeEnvironment } from '../mocks/chrome';
+import { createTestGroup } from '../utils/testUtils';
+
+/**
+ * 系统服务单元测试
+ */
+describe('SystemService', () => {
+  let mockChrome: any;
+  let controller: MessageController;
+
+  beforeEach(() => {
+    mockChrome = setupChromeEnvironment();
+    mockChrome.storage._setStorage({
+      xswitch_groups: [
+        createTestGroup({
+          id: 'local',
+          enabled: false,
+          ruleText: JSON.stringify({
+            proxy: [['https://a.com/(.*)', 'http://localhost:3000/$1']],
+          }),
+        }),
+      ],
+    });
+    controller = MessageController.getInstance();
+  });
+
+  describe('规则更新', () => {
+    it('浏览器拒绝规则时接口返回失败', async () => {
+      mockChrome.declarativeNetRequest.updateDynamicRules.mockRejectedValueOnce(
+        new Error('Rule quota exceeded')
+      );
+
+      const response = await controller.handleMessage(
+        { type: ApiRequestType.TOGGLE_GROUP, data: { groupId: 'local' } },
+        {}
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error).toContain('Rule quota exceeded');
+    });
+
+    it('规则生效后接口返回成功', async () => {
+      const response = await controller.handleMessage(
+        { type: ApiRequestType.TOGGLE_GROUP, data: { groupId: 'local' } },
+        {}
+      );
+
+      expect(response).toEqual({ success: true, data: { enabled: true } });
+    });
+  });
+
+  describe('链接开关', () => {
+    const url = 'https://a.com/?__xswitch=local';
+
+    // 模拟标签页中的页面请求
+    const navigate = (tabId: number) =>
+      mockChrome.webRequest.onBeforeRequest.addListener.mock.calls.at(-1)[0]({
+        url,
+        type: 'main_frame',
+        tabId,
+      });
+
+    beforeEach(async () => {
+      const systemService = SystemService.getInstance();
+      await systemService.saveSettings({ urlSwitchKey: '__xswitch' });
+      systemService.setupTabListener();
+    });
+
+    it('页面请求带开关参数时切换标签页规则，规则生效后重新打开页面', async () => {
+      navigate(7);
+
+      await vi.waitFor(() =>
+        expect(mockChrome.tabs.update).toHaveBeenCalledWith(7, { url })
+      );
+      const { updateSessionRules } = mockChrome.declarativeNetRequest;
+      const [{ addRules }] = updateSessionRules.mock.calls.at(-1);
+      expect(addRules[0].condition.tabIds).toEqual([7]);
+      // 重新打开页面时标签页规则已经生效
+      expect(updateSessionRules.mock.invocationCallOrder.at(-1)).toBeLessThan(
+        mockChrome.tabs.update.mock.invocationCallOrder[0]
+      );
+
+      // 重新打开后的页面请求不再切换规则
+      navigate(7);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(mockChrome.tabs.update).toHaveBeenCalledTimes(1);
+    });
+  });
+});
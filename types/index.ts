@@ -8,14 +8,114 @@ export interface GroupRuleVo {
   groupName: string;
   /** 是否启用 */
   enabled: boolean;
+  /** 自动停用时间（ISO 格式），手动切换启用状态时清除 */
+  expiresAt?: string;
   /** 规则配置文本（JSON格式） */
   ruleText: string;
+  /** 前台页面地址匹配任一模式时自动启用，模式语法与代理规则的源地址相同 */
+  activateOn?: string[];
   /** 创建时间 */
   createTime: string;
   /** 更新时间 */
   updateTime: string;
 }
 
+/**
+ * 方案 - 一组同时启用的规则组，激活时其余规则组全部停用
+ */
+export interface ProfileVo {
+  id: string;
+  /** 方案名称 */
+  name: string;
+  /** 激活时启用的规则组ID */
+  groupIds: string[];
+  createTime: string;
+  updateTime: string;
+}
+
+/**
+ * 方案列表与当前激活的方案
+ */
+export interface ProfileState {
+  profiles: ProfileVo[];
+  /** 启用的规则组与方案一致时才视为激活，手动切换规则组后为空 */
+  activeProfileId?: string;
+}
+
+/**
+ * 仅在指定标签页生效的规则组：规则组ID → 标签页ID 列表。
+ * 标签页ID 只在本次浏览器会话内有效，保存在 storage.session 中
+ */
+export type TabGroups = Record<string, number[]>;
+
+/**
+ * 系统设置
+ */
+export interface SystemSettings {
+  /** 禁用代理资源的缓存（规则组可单独覆盖） */
+  disableCache: boolean;
+  /** 规则变更时清除受影响来源的浏览器缓存 */
+  clearCacheOnUpdate: boolean;
+  /** 全局变量，规则中以 ${NAME} 引用，规则组的 vars 可覆盖 */
+  vars: Record<string, string>;
+  /** 相对目标地址的基准地址，为空时使用 http://localhost:3000 */
+  baseUrl: string;
+  /** 链接开关参数名，页面地址带有该参数时按参数值切换所在标签页的规则，为空时不启用 */
+  urlSwitchKey: string;
+  /** 连续多少小时没有修改配置后自动关闭全局开关，0 表示不自动关闭 */
+  autoOffHours: number;
+}
+
+/**
+ * 规则错误所属的规则类型
+ */
+export type RuleErrorType = 'proxy' | 'cors' | 'headers';
+
+/**
+ * 规则转换或校验失败的信息
+ */
+export interface RuleErrorInfo {
+  type: RuleErrorType;
+  error: string;
+  /** 所属规则组 */
+  groupId?: string;
+  groupName?: string;
+  /** 规则名称或 ID */
+  ruleName?: string;
+  /** 源地址或匹配模式 */
+  source?: string;
+}
+
+/**
+ * 最近一次规则更新的状态
+ */
+export interface RuleStatus {
+  /** 被跳过的规则及原因 */
+  errors: RuleErrorInfo[];
+  /** 超出浏览器规则配额而停用的规则组 */
+  droppedGroups: Array<{ id: string; groupName: string }>;
+  /** 需要从请求中记录来源的回显 CORS 规则，来自新来源的第一个请求不带 CORS 响应头 */
+  learnedCorsRules: Array<{ groupId: string; pattern: string }>;
+  /** 浏览器拒绝整批规则时的错误信息 */
+  applyError?: string;
+}
+
+/**
+ * 浏览器记录的规则命中
+ */
+export interface RuleHitInfo {
+  /** 动态规则 ID */
+  ruleId: number;
+  tabId: number;
+  timeStamp: number;
+  action: 'redirect' | 'block';
+  ruleName?: string;
+  source: string;
+  target?: string;
+  groupId?: string;
+  groupName?: string;
+}
+
 /**
  * 操作结果类型
  */
@@ -42,4 +142,4 @@ export interface ParsedRuleConfig {
   proxy: ProxyRule[];
   /** CORS规则列表 */
   cors: string[];
-}
\ No newline at end of file
+}
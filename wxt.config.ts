@@ -13,7 +13,11 @@ export default defineConfig({
       'tabs',
       'scripting',
       'declarativeNetRequest',
+      'declarativeNetRequestFeedback',
       'webRequest',
+      'browsingData',
+      'alarms',
+      'notifications',
     ],
     host_permissions: ['<all_urls>'],
   },